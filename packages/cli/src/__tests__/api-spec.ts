@@ -0,0 +1,155 @@
+import http from "http";
+import { AddressInfo } from "net";
+import net from "net";
+import { PlasmicApi } from "../api";
+import { ApiError } from "../utils/error";
+import { getProxy, makeAgent } from "../utils/http-utils";
+
+// Statuses to answer the next requests with; then 200
+let statuses: number[];
+let requests: string[];
+let server: http.Server;
+let host: string;
+
+function listen(s: http.Server) {
+  return new Promise<string>((resolve) =>
+    s.listen(0, "localhost", () =>
+      resolve(`http://localhost:${(s.address() as AddressInfo).port}`)
+    )
+  );
+}
+
+beforeEach(async () => {
+  statuses = [];
+  requests = [];
+  process.env.PLASMIC_API_RETRY_DELAY = "1";
+  server = http.createServer((req, res) => {
+    requests.push(req.url ?? "");
+    const status = statuses.shift() ?? 200;
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify(
+        status === 200
+          ? { defaultStyleCssFileName: "default.css" }
+          : { error: { message: `Failed with ${status}` } }
+      )
+    );
+  });
+  host = await listen(server);
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  for (const name of [
+    "PLASMIC_API_RETRY_DELAY",
+    "PLASMIC_API_TIMEOUT",
+    "HTTP_PROXY",
+    "NO_PROXY",
+  ]) {
+    delete process.env[name];
+  }
+});
+
+function makeApi() {
+  return new PlasmicApi({ host, user: "user", token: "token" });
+}
+
+describe("PlasmicApi", () => {
+  test("retries when the server is unavailable", async () => {
+    statuses = [503, 502];
+    await expect(makeApi().genStyleConfig()).resolves.toMatchObject({
+      defaultStyleCssFileName: "default.css",
+    });
+    expect(requests.length).toBe(3);
+  });
+
+  test("doesn't retry uploads", async () => {
+    statuses = [503];
+    await expect(
+      makeApi().uploadBundle(
+        "p",
+        "b",
+        "",
+        [],
+        "",
+        undefined,
+        [],
+        undefined,
+        undefined,
+        undefined,
+        undefined
+      )
+    ).rejects.toThrow("Failed with 503");
+    expect(requests.length).toBe(1);
+  });
+
+  test("retries and classifies the errors of getting the current user", async () => {
+    statuses = [503, 401];
+    await expect(makeApi().getCurrentUser()).rejects.toMatchObject({
+      reason: "auth",
+      status: 401,
+    });
+    expect(requests).toEqual(["/api/v1/auth/self", "/api/v1/auth/self"]);
+  });
+
+  test("classifies errors", async () => {
+    const reasonOf = (p: Promise<unknown>) =>
+      p.then(
+        () => undefined,
+        (e) => (e instanceof ApiError ? e.reason : e)
+      );
+
+    statuses = [401];
+    expect(await reasonOf(makeApi().genStyleConfig())).toBe("auth");
+    statuses = [404];
+    expect(await reasonOf(makeApi().genStyleConfig())).toBe("not-found");
+    statuses = [500];
+    expect(await reasonOf(makeApi().genStyleConfig())).toBe("server");
+
+    process.env.PLASMIC_API_TIMEOUT = "50";
+    server.removeAllListeners("request");
+    server.on("request", (req: http.IncomingMessage) => {
+      requests.push(req.url ?? "");
+      // Never answer
+    });
+    expect(await reasonOf(makeApi().genStyleConfig())).toBe("network");
+    // Requests that timed out aren't retried
+    expect(requests.length).toBe(4);
+  });
+
+  test("connects through the proxy", async () => {
+    const tunneled: string[] = [];
+    const proxy = http.createServer();
+    proxy.on("connect", (req: http.IncomingMessage, socket: net.Socket) => {
+      tunneled.push(req.url ?? "");
+      const [hostname, port] = (req.url ?? "").split(":");
+      const upstream = net.connect(+port, hostname, () => {
+        socket.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+        upstream.pipe(socket);
+        socket.pipe(upstream);
+      });
+    });
+    process.env.HTTP_PROXY = await listen(proxy);
+    try {
+      await expect(makeApi().genStyleConfig()).resolves.toBeTruthy();
+      expect(tunneled).toEqual([new URL(host).host]);
+    } finally {
+      await new Promise((resolve) => proxy.close(resolve));
+    }
+  });
+
+  test("bypasses the proxy for hosts in NO_PROXY", () => {
+    process.env.HTTP_PROXY = "http://proxy:8080";
+    process.env.NO_PROXY = "localhost, .internal.example.com";
+    expect(getProxy("http://localhost:3003")).toBeUndefined();
+    expect(getProxy("http://studio.internal.example.com")).toBeUndefined();
+    expect(getProxy("http://studio.plasmic.app")).toBe("http://proxy:8080");
+  });
+
+  test("reuses the agent of a proxy", () => {
+    process.env.HTTP_PROXY = "http://proxy:8080";
+    const agent = makeAgent(host);
+    expect(agent).toBeDefined();
+    expect(makeAgent(`${host}/api/v1/code/style-config`)).toBe(agent);
+  });
+});
@@ -0,0 +1,56 @@
+import L from "lodash";
+import { remove } from "../actions/remove";
+import { sync } from "../actions/sync";
+import {
+  opts,
+  standardTestSetup,
+  standardTestTeardown,
+  tmpRepo,
+} from "../test-common/fixtures";
+
+jest.mock("../api");
+
+beforeEach(() => {
+  standardTestSetup();
+  opts.projects = ["projectId1"];
+  opts.nonRecursive = true;
+  const plasmicJson = tmpRepo.readPlasmicJson();
+  plasmicJson.code.barrels = true;
+  tmpRepo.writePlasmicJson(plasmicJson);
+});
+
+afterEach(() => {
+  standardTestTeardown();
+});
+
+function barrelPath() {
+  const plasmicJson = tmpRepo.readPlasmicJson();
+  const project = plasmicJson.projects.find(
+    (p) => p.projectId === "projectId1"
+  );
+  return `src/${plasmicJson.defaultPlasmicDir}/${L.snakeCase(
+    project?.projectName
+  )}/index.${plasmicJson.code.lang}`;
+}
+
+describe("barrels", () => {
+  test("writes an index module re-exporting the project", async () => {
+    await expect(sync(opts)).resolves.toBeUndefined();
+    const barrel = tmpRepo.readFile(barrelPath());
+    expect(barrel).toMatch(/export \{ default as Button \} from "\.[^"]*";/);
+    expect(barrel).toMatch(/export \{ default as Container \} from "\.[^"]*";/);
+    expect(barrel.indexOf("as Button")).toBeLessThan(
+      barrel.indexOf("as Container")
+    );
+  });
+
+  test("removes the index module with the project", async () => {
+    await expect(sync(opts)).resolves.toBeUndefined();
+    const path = barrelPath();
+    expect(tmpRepo.checkFile(path)).toBe(true);
+    await expect(
+      remove({ ...opts, projects: ["projectId1"] })
+    ).resolves.toBeUndefined();
+    expect(tmpRepo.checkFile(path)).toBe(false);
+  });
+});
@@ -0,0 +1,151 @@
+import fs from "fs";
+import tmp from "tmp";
+import path from "upath";
+import {
+  buildBundle,
+  findRegistrations,
+  wrapAsAmd,
+} from "../utils/bundle-utils";
+import { writeFileText } from "../utils/file-utils";
+
+describe("findRegistrations", () => {
+  test("reads the metadata of registered components", () => {
+    const code = `
+import { registerComponent } from "@plasmicapp/host";
+import Slider from "../widgets/Slider";
+import { Tabs } from "tabs-lib";
+
+export function Card(props: { title: string }) {
+  return <div>{props.title}</div>;
+}
+
+registerComponent(Slider, {
+  name: "Slider",
+  props: { min: "number", max: "number" },
+});
+registerComponent(Tabs, { name: "Tabs", props: { children: "slot" } });
+registerComponent(Card, {
+  name: "Card",
+  props: { title: "string" },
+  importPath: "@acme/cards",
+});
+`;
+    expect(findRegistrations("src/components/register.tsx", code)).toEqual([
+      {
+        name: "Slider",
+        props: { min: "number", max: "number" },
+        importPath: "./src/widgets/Slider",
+        isDefaultExport: true,
+      },
+      {
+        name: "Tabs",
+        props: { children: "slot" },
+        importPath: "tabs-lib",
+        isDefaultExport: false,
+      },
+      {
+        name: "Card",
+        props: { title: "string" },
+        importPath: "@acme/cards",
+      },
+    ]);
+  });
+
+  test("imports components defined in the registering module from it", () => {
+    const code = `
+const Badge = () => null;
+export default Badge;
+PlasmicHost.registerComponent(Badge, { name: "Badge", props: {} });
+`;
+    expect(findRegistrations("src/Badge.jsx", code)).toEqual([
+      {
+        name: "Badge",
+        props: {},
+        importPath: "./src/Badge",
+        isDefaultExport: true,
+      },
+    ]);
+  });
+
+  test("requires literal metadata", () => {
+    const code = `registerComponent(Slider, makeMeta("Slider"));`;
+    expect(() => findRegistrations("src/register.ts", code)).toThrow(
+      "src/register.ts:1: the metadata passed to registerComponent() must be an object literal."
+    );
+  });
+});
+
+describe("wrapAsAmd", () => {
+  test("lists the externals as dependencies", () => {
+    expect(wrapAsAmd(`exports.x = require("react");`, ["react"])).toEqual(
+      `define(["require","exports","module","react"], function (require, exports, module) {\n` +
+        `exports.x = require("react");\n});\n`
+    );
+  });
+});
+
+describe("buildBundle", () => {
+  let rootDir: tmp.DirResult;
+
+  beforeEach(() => {
+    rootDir = tmp.dirSync({ unsafeCleanup: true });
+    // The project provides esbuild
+    fs.symlinkSync(
+      path.resolve(__dirname, "../../node_modules"),
+      path.join(rootDir.name, "node_modules")
+    );
+  });
+
+  afterEach(() => {
+    rootDir.removeCallback();
+  });
+
+  function writeSource(relPath: string, content: string) {
+    const file = path.join(rootDir.name, relPath);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    writeFileText(file, content);
+  }
+
+  test("bundles the components and requires the externals it imports", async () => {
+    writeSource(
+      "src/register.tsx",
+      `
+import { registerComponent } from "@plasmicapp/host";
+import React from "react";
+import { Card } from "./Card";
+import "./Card.css";
+
+registerComponent(Card, { name: "Card", props: { title: "string" } });
+`
+    );
+    writeSource(
+      "src/Card.tsx",
+      `
+import React from "react";
+export function Card(props: { title: string }) {
+  return <div className="card">{props.title}</div>;
+}
+`
+    );
+    writeSource("src/Card.css", ".card { color: red; }");
+
+    const bundle = await buildBundle(rootDir.name, "src/register.tsx", {
+      externals: ["lodash"],
+    });
+    expect(bundle.js).toMatch(
+      /^define\(\["require","exports","module","@plasmicapp\/host","react"\]/
+    );
+    expect(bundle.js).toContain(`"card"`);
+    expect(bundle.css.join("")).toContain("red");
+    expect(bundle.registrations).toEqual([
+      {
+        name: "Card",
+        props: { title: "string" },
+        importPath: "./src/Card",
+        isDefaultExport: false,
+      },
+    ]);
+    expect(bundle.genModulePath).toEqual("./src/register");
+    expect(bundle.genCssPaths).toEqual(["./src/Card.css"]);
+  });
+});
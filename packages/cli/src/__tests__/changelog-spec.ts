@@ -0,0 +1,146 @@
+import {
+  changelog,
+  Changelog,
+  formatChangelogAsMarkdown,
+} from "../actions/changelog";
+import { logger } from "../deps";
+import {
+  mockApi,
+  opts,
+  standardTestSetup,
+  standardTestTeardown,
+} from "../test-common/fixtures";
+
+jest.mock("../api");
+
+beforeEach(() => {
+  standardTestSetup();
+});
+
+afterEach(() => {
+  standardTestTeardown();
+});
+
+async function captureChangelog(
+  format: "markdown" | "json",
+  from = "1.2.3",
+  to = "1.3.0"
+) {
+  const output: string[] = [];
+  const spy = jest
+    .spyOn(process.stdout, "write")
+    .mockImplementation((chunk: any) => output.push(chunk) as any);
+  const logSpy = jest.spyOn(logger, "info").mockImplementation(() => logger);
+  try {
+    await changelog({
+      ...opts,
+      project: "projectId1",
+      from,
+      to,
+      format,
+    });
+    return output.join("");
+  } finally {
+    spy.mockRestore();
+    logSpy.mockRestore();
+  }
+}
+
+describe("changelog", () => {
+  beforeEach(() => {
+    const project = mockApi.getMockProject("projectId1", "1.2.3");
+    mockApi.addMockProject({
+      ...project,
+      version: "1.3.0",
+      components: [
+        { id: "containerId", name: "Container" },
+        { id: "cardId", name: "Card" },
+      ],
+    });
+  });
+
+  test("lists the changed components as JSON", async () => {
+    const log: Changelog = JSON.parse(await captureChangelog("json"));
+    expect(log.from).toEqual("1.2.3");
+    expect(log.to).toEqual("1.3.0");
+    expect(log.changes).toEqual([
+      { type: "component", id: "cardId", name: "Card", change: "added" },
+      {
+        type: "component",
+        id: "containerId",
+        name: "Container",
+        change: "changed",
+      },
+      { type: "component", id: "buttonId", name: "Button", change: "removed" },
+    ]);
+  });
+
+  test("compares the versions that ranges resolve to", async () => {
+    const log: Changelog = JSON.parse(
+      await captureChangelog("json", "~1.2.0", "latest")
+    );
+    expect(log.from).toEqual("1.2.3");
+    expect(log.to).toEqual("1.3.0");
+    expect(log.changes.map((c) => `${c.change} ${c.name}`)).toEqual([
+      "added Card",
+      "changed Container",
+      "removed Button",
+    ]);
+  });
+
+  test("lists the changed components as Markdown", async () => {
+    expect(await captureChangelog("markdown")).toEqual(
+      [
+        "# projectId1: changes from 1.2.3 to 1.3.0",
+        "",
+        "## Components",
+        "",
+        "- Added **Card**",
+        "- Changed **Container**",
+        "- Removed **Button**",
+        "",
+      ].join("\n")
+    );
+  });
+});
+
+describe("formatChangelogAsMarkdown", () => {
+  test("groups changes by type", () => {
+    expect(
+      formatChangelogAsMarkdown({
+        projectId: "p",
+        projectName: "Design system",
+        from: "1.0.0",
+        to: "2.0.0",
+        changes: [
+          {
+            type: "token",
+            id: "t1",
+            name: "Primary",
+            change: "changed",
+            previousName: "Brand",
+          },
+          { type: "icon", id: "i1", name: "ArrowIcon", change: "added" },
+        ],
+        projectCssChanged: true,
+      })
+    ).toEqual(
+      [
+        "# Design system: changes from 1.0.0 to 2.0.0",
+        "",
+        "## Icons",
+        "",
+        "- Added **ArrowIcon**",
+        "",
+        "## Tokens",
+        "",
+        "- Changed **Primary** (renamed from Brand)",
+        "",
+        "## Project styles",
+        "",
+        "- Changed",
+        "",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,141 @@
+import axios from "axios";
+import socketio from "socket.io-client";
+import path from "upath";
+import tmp from "tmp";
+import { DevServer, startDevServer } from "../actions/dev-server";
+import { sync, SyncArgs } from "../actions/sync";
+import { writeFileText } from "../utils/file-utils";
+import { stringToMockComponent } from "../utils/mock-projects";
+import { TempRepo } from "../utils/test-utils";
+
+let server: DevServer;
+let tmpRepo: TempRepo;
+let fixturesDir: tmp.DirResult;
+
+beforeEach(async () => {
+  process.env.PLASMIC_DISABLE_AUTH_SEARCH = "1";
+  tmpRepo = new TempRepo();
+  fixturesDir = tmp.dirSync({ unsafeCleanup: true });
+  writeFileText(
+    path.join(fixturesDir.name, "project1.json"),
+    JSON.stringify({
+      projectId: "projectId1",
+      projectApiToken: "abc",
+      version: "1.2.3",
+      projectName: "project1",
+      components: [{ id: "buttonId", name: "Button" }],
+    })
+  );
+  server = await startDevServer({
+    fixtures: fixturesDir.name,
+    port: 0,
+  });
+  tmpRepo.writePlasmicAuth({
+    host: server.url,
+    user: "yang@plasmic.app",
+    token: "faketoken",
+  });
+  tmpRepo.writePlasmicJson({
+    platform: "react",
+    code: { lang: "ts", scheme: "blackbox" },
+    style: {
+      scheme: "css",
+      defaultStyleCssFilePath: "plasmic/PP__plasmic__default_style.css",
+    },
+    images: { scheme: "inlined" },
+    tokens: { scheme: "theo", tokensFilePath: "plasmic-tokens.theo.json" },
+    srcDir: "src/",
+    defaultPlasmicDir: "./plasmic",
+    projects: [],
+    globalVariants: { variantGroups: [] },
+    cliVersion: "0.1.44",
+  });
+});
+
+afterEach(async () => {
+  await server.close();
+  tmpRepo.destroy();
+  fixturesDir.removeCallback();
+  delete process.env["PLASMIC_DISABLE_AUTH_SEARCH"];
+});
+
+function syncOpts(projects: string[]): SyncArgs {
+  return {
+    projects,
+    yes: true,
+    force: true,
+    forceOverwrite: true,
+    skipUpgradeCheck: true,
+    config: tmpRepo.plasmicJsonPath(),
+    auth: tmpRepo.plasmicAuthPath(),
+  };
+}
+
+function syncedButton() {
+  return stringToMockComponent(
+    tmpRepo.getComponentFileContents("projectId1", "buttonId")
+  );
+}
+
+describe("dev-server", () => {
+  test("serves sync from the fixtures", async () => {
+    await expect(sync(syncOpts(["projectId1"]))).resolves.toBeUndefined();
+
+    expect(syncedButton()).toMatchObject({ name: "Button", version: "1.2.3" });
+    expect(tmpRepo.readPlasmicJson().projects[0].projectApiToken).toBe("abc");
+  });
+
+  test("simulates new revisions", async () => {
+    await sync(syncOpts(["projectId1"]));
+
+    const resp = await axios.post(
+      `${server.url}/api/v1/dev/projects/projectId1/revisions`,
+      { version: "1.3.0", components: [{ id: "buttonId", name: "NewButton" }] }
+    );
+    expect(resp.data.revision).toBe(2);
+
+    await sync(syncOpts(["projectId1@^1.2.0"]));
+    expect(syncedButton()).toMatchObject({
+      name: "NewButton",
+      version: "1.3.0",
+    });
+  });
+
+  test("rejects wrong project API tokens", async () => {
+    await expect(
+      axios.post(`${server.url}/api/v1/code/resolve-sync`, {
+        projects: [
+          {
+            projectId: "projectId1",
+            versionRange: "latest",
+            projectApiToken: "wrong",
+          },
+        ],
+      })
+    ).rejects.toMatchObject({ response: { status: 403 } });
+  });
+
+  test("notifies subscribers of new revisions", async () => {
+    const socket = socketio(server.url, {
+      path: "/api/v1/socket",
+      transports: ["websocket"],
+    });
+    try {
+      await new Promise((resolve) => socket.on("initServerInfo", resolve));
+      const update = new Promise((resolve) => socket.on("update", resolve));
+      socket.emit("subscribe", { projectIds: ["projectId1"] });
+      // Give the server time to get the subscription
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const revisionNum = server.addRevision("projectId1", {
+        components: [{ id: "buttonId", name: "NewButton" }],
+      });
+      await expect(update).resolves.toEqual({
+        projectId: "projectId1",
+        revisionNum,
+      });
+    } finally {
+      socket.close();
+    }
+  });
+});
@@ -0,0 +1,79 @@
+import { diff } from "../actions/diff";
+import { sync } from "../actions/sync";
+import {
+  opts,
+  standardTestSetup,
+  standardTestTeardown,
+  tmpRepo,
+} from "../test-common/fixtures";
+
+jest.mock("../api");
+
+beforeEach(() => {
+  standardTestSetup();
+});
+
+afterEach(() => {
+  standardTestTeardown();
+});
+
+describe("diff", () => {
+  test("shows local edits to generated files without writing", async () => {
+    opts.projects = ["projectId1"];
+    await expect(sync(opts)).resolves.toBeUndefined();
+
+    const cssFile = tmpRepo
+      .readPlasmicJson()
+      .projects.find((p) => p.projectId === "projectId1")
+      ?.components.find((c) => c.id === "buttonId")?.cssFilePath;
+    const cssPath = `src/${cssFile}`;
+    const edited = tmpRepo.readFile(cssPath) + "\n.edited {}\n";
+    tmpRepo.writeFile(cssPath, edited);
+
+    const output: string[] = [];
+    const spy = jest
+      .spyOn(process.stdout, "write")
+      .mockImplementation((chunk: any) => output.push(`${chunk}`) > 0);
+    try {
+      await expect(
+        diff({ ...opts, projects: ["projectId1"] })
+      ).resolves.toBeUndefined();
+    } finally {
+      spy.mockRestore();
+    }
+
+    const patch = output.join("");
+    expect(patch).toContain(`b/${cssFile}`);
+    expect(patch).toContain("+.edited {}");
+    expect(patch).not.toContain("PlasmicContainer");
+    expect(tmpRepo.readFile(cssPath)).toEqual(edited);
+  });
+
+  test("generates the files as the plugins transform them", async () => {
+    tmpRepo.writeFile(
+      "plugin.js",
+      `exports.transformFile = ({ type, content }) =>
+  type === "cssRules" ? "/* License */\\n" + content : undefined;
+`
+    );
+    const plasmicJson = tmpRepo.readPlasmicJson();
+    plasmicJson.plugins = ["./plugin.js"];
+    tmpRepo.writePlasmicJson(plasmicJson);
+    opts.projects = ["projectId1"];
+    await expect(sync(opts)).resolves.toBeUndefined();
+
+    const output: string[] = [];
+    const spy = jest
+      .spyOn(process.stdout, "write")
+      .mockImplementation((chunk: any) => output.push(`${chunk}`) > 0);
+    try {
+      await expect(
+        diff({ ...opts, projects: ["projectId1"] })
+      ).resolves.toBeUndefined();
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(output.join("")).not.toContain("License");
+  });
+});
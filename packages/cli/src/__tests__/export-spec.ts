@@ -0,0 +1,77 @@
+import tmp from "tmp";
+import { exportArchive } from "../actions/export";
+import { sync } from "../actions/sync";
+import {
+  expectProject1Components,
+  expectProjectAndDepPlasmicJson,
+  mockApi,
+  opts,
+  standardTestSetup,
+  standardTestTeardown,
+  tmpRepo,
+} from "../test-common/fixtures";
+import { readArchive } from "../utils/archive-utils";
+
+jest.mock("../api");
+
+let archiveFile: tmp.FileResult;
+
+beforeEach(() => {
+  standardTestSetup();
+  archiveFile = tmp.fileSync({ postfix: ".json.gz" });
+});
+
+afterEach(() => {
+  standardTestTeardown();
+  archiveFile.removeCallback();
+});
+
+async function exportProject1() {
+  opts.projects = ["projectId1"];
+  await sync(opts);
+  // Export the locked version, not the latest one
+  mockApi.addMockProject({
+    ...mockApi.getMockProject("projectId1", "1.2.3"),
+    version: "1.3.0",
+  });
+  await exportArchive({ ...opts, projects: [], output: archiveFile.name });
+}
+
+describe("export", () => {
+  test("archives the locked versions of projects and dependencies", async () => {
+    await exportProject1();
+
+    const archive = readArchive(archiveFile.name);
+    expect(
+      archive.bundles.map((b) => `${b.projectId}@${b.version}`).sort()
+    ).toEqual(["dependencyId1@2.3.4", "projectId1@1.2.3"]);
+    expect(archive.requiredPackages["@plasmicapp/cli"]).toBeTruthy();
+  });
+
+  test("syncs from the archive without the server", async () => {
+    await exportProject1();
+
+    // Start over in a new project, with nothing on the server
+    standardTestTeardown();
+    standardTestSetup();
+    mockApi.clear();
+
+    opts.projects = ["projectId1"];
+    opts.fromArchive = archiveFile.name;
+    await expect(sync(opts)).resolves.toBeUndefined();
+
+    expectProject1Components();
+    expectProjectAndDepPlasmicJson();
+    expect(tmpRepo.checkFile("./src/DepComponent.tsx")).toBeTruthy();
+  });
+
+  test("rejects versions that are not in the archive", async () => {
+    await exportProject1();
+
+    opts.projects = ["projectId1@1.3.0"];
+    opts.fromArchive = archiveFile.name;
+    await expect(sync(opts)).rejects.toThrow(
+      'The archive has no version of project projectId1 matching "1.3.0"; it has 1.2.3.'
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import { sync } from "../actions/sync";
+import {
+  opts,
+  standardTestSetup,
+  standardTestTeardown,
+  tmpRepo,
+} from "../test-common/fixtures";
+import { FormatConfig } from "../utils/config-utils";
+
+jest.mock("../api");
+
+beforeEach(() => {
+  standardTestSetup();
+  opts.projects = ["projectId1"];
+  opts.nonRecursive = true;
+});
+
+afterEach(() => {
+  standardTestTeardown();
+});
+
+function useFormat(format: FormatConfig) {
+  const plasmicJson = tmpRepo.readPlasmicJson();
+  plasmicJson.format = format;
+  tmpRepo.writePlasmicJson(plasmicJson);
+}
+
+function buttonConfig() {
+  const project = tmpRepo
+    .readPlasmicJson()
+    .projects.find((p) => p.projectId === "projectId1");
+  return project?.components.find((c) => c.id === "buttonId");
+}
+
+function buttonCss() {
+  return tmpRepo.readFile(`src/${buttonConfig()?.cssFilePath}`);
+}
+
+describe("format", () => {
+  test("formats generated files with a custom module", async () => {
+    tmpRepo.writeFile(
+      "format.js",
+      `exports.format = (code, filePath) => "// formatted " + require("path").basename(filePath) + "\\n" + code;`
+    );
+    useFormat({ scheme: "module", module: "./format.js" });
+    await expect(sync(opts)).resolves.toBeUndefined();
+
+    expect(buttonCss()).toEqual(
+      "// formatted PlasmicButton.css\ntheClass {color: blue;}"
+    );
+    const renderModule = tmpRepo.readFile(
+      `src/${buttonConfig()?.renderModuleFilePath}`
+    );
+    expect(renderModule).toMatch(/^\/\/ formatted PlasmicButton.tsx\n/);
+  });
+
+  test("formats with the Prettier config of the project", async () => {
+    tmpRepo.writeFile(".prettierrc", JSON.stringify({ tabWidth: 8 }));
+    useFormat({ scheme: "prettier" });
+    await expect(sync(opts)).resolves.toBeUndefined();
+
+    expect(buttonCss()).toEqual("theClass {\n        color: blue;\n}\n");
+  });
+
+  test("leaves generated files unformatted", async () => {
+    useFormat({ scheme: "none" });
+    await expect(sync(opts)).resolves.toBeUndefined();
+
+    // Prettier would have put the rule on multiple lines
+    expect(buttonCss()).toEqual("theClass {color: blue;}");
+  });
+
+  test("fails if the module has no format function", async () => {
+    tmpRepo.writeFile("format.js", `exports.notFormat = () => "";`);
+    useFormat({ scheme: "module", module: "./format.js" });
+    await expect(sync(opts)).rejects.toThrow(
+      "must export a function format(code, filePath)"
+    );
+  });
+});
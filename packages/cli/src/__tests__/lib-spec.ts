@@ -0,0 +1,61 @@
+import { PromptRequiredError, setLogger, status, sync } from "../lib";
+import {
+  opts,
+  standardTestSetup,
+  standardTestTeardown,
+  tmpRepo,
+} from "../test-common/fixtures";
+
+jest.mock("../api");
+
+const messages: string[] = [];
+
+beforeEach(() => {
+  standardTestSetup();
+  messages.length = 0;
+  setLogger({
+    info: (message) => messages.push(message),
+    warn: (message) => messages.push(message),
+    error: (message) => messages.push(message),
+  });
+});
+
+afterEach(() => {
+  standardTestTeardown();
+});
+
+describe("lib", () => {
+  test("sends log output to the injected logger", async () => {
+    await expect(
+      sync({ ...opts, projects: ["projectId1"] })
+    ).resolves.toBeUndefined();
+    expect(messages.join("\n")).toContain("Syncing component");
+  });
+
+  test("throws instead of prompting or exiting", async () => {
+    const exit = jest.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("process.exit called");
+    }) as any);
+    try {
+      await expect(
+        sync({ ...opts, projects: ["projectId1"] })
+      ).resolves.toBeUndefined();
+      const button = tmpRepo
+        .readPlasmicJson()
+        .projects.find((p) => p.projectId === "projectId1")
+        ?.components.find((c) => c.id === "buttonId");
+      tmpRepo.deleteFile(`src/${button?.cssFilePath}`);
+
+      // Recreating the missing file needs confirmation
+      await expect(
+        sync({ ...opts, projects: ["projectId1"], yes: false })
+      ).rejects.toBeInstanceOf(PromptRequiredError);
+      await expect(status({ ...opts, projects: [] })).rejects.toThrow(
+        "problem(s)"
+      );
+      expect(exit).not.toHaveBeenCalled();
+    } finally {
+      exit.mockRestore();
+    }
+  });
+});
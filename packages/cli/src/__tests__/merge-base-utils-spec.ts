@@ -0,0 +1,131 @@
+import {
+  ComponentSkeletonModel,
+  ProjectSyncMetadataModel,
+} from "@plasmicapp/code-merger";
+import tmp from "tmp";
+import { PlasmicContext } from "../utils/config-utils";
+import { withBufferedFs } from "../utils/file-utils";
+import {
+  deleteMergeBases,
+  makeMergeBaseProvider,
+  readMergeBase,
+  saveMergeBase,
+} from "../utils/merge-base-utils";
+
+let rootDir: tmp.DirResult;
+let context: PlasmicContext;
+
+beforeEach(() => {
+  rootDir = tmp.dirSync({ unsafeCleanup: true });
+  context = { rootDir: rootDir.name } as PlasmicContext;
+});
+
+afterEach(() => {
+  rootDir.removeCallback();
+});
+
+function skeleton(uuid: string, fileContent: string) {
+  return new ComponentSkeletonModel(uuid, new Map(), fileContent);
+}
+
+function storedContent(componentId: string, revision: number) {
+  return readMergeBase(context, "projectId1", componentId, revision)
+    ?.fileContent;
+}
+
+describe("merge bases", () => {
+  test("are stored per component, keeping the latest one", async () => {
+    await withBufferedFs(async () => {
+      saveMergeBase(
+        context,
+        "projectId1",
+        3,
+        skeleton("buttonId", "button v3")
+      );
+      saveMergeBase(
+        context,
+        "projectId1",
+        3,
+        skeleton("containerId", "container v3")
+      );
+      saveMergeBase(
+        context,
+        "projectId1",
+        4,
+        skeleton("buttonId", "button v4")
+      );
+    });
+
+    expect(storedContent("buttonId", 4)).toEqual("button v4");
+    expect(storedContent("buttonId", 3)).toBeUndefined();
+    expect(storedContent("containerId", 3)).toEqual("container v3");
+    expect(readMergeBase(context, "projectId2", "buttonId", 4)).toBeUndefined();
+  });
+
+  test("are written once the changes are, and aren't part of them", async () => {
+    const changes = await withBufferedFs(
+      async () => {
+        saveMergeBase(context, "projectId1", 3, skeleton("buttonId", "v3"));
+        expect(storedContent("buttonId", 3)).toEqual("v3");
+      },
+      { dryRun: true }
+    );
+    expect(changes).toEqual([]);
+    expect(storedContent("buttonId", 3)).toBeUndefined();
+
+    await withBufferedFs(async () => {
+      saveMergeBase(context, "projectId1", 3, skeleton("buttonId", "v3"));
+    });
+    expect(storedContent("buttonId", 3)).toEqual("v3");
+  });
+
+  test("are fetched from the server only when missing", async () => {
+    const fetchFromServer = jest.fn(
+      async (projectId: string, revision: number) =>
+        new ProjectSyncMetadataModel([
+          skeleton("buttonId", `button ${projectId}@${revision}`),
+          skeleton("containerId", `container ${projectId}@${revision}`),
+        ])
+    );
+    await withBufferedFs(async () => {
+      saveMergeBase(context, "projectId1", 3, skeleton("buttonId", "stored"));
+
+      const forButton = makeMergeBaseProvider(
+        context,
+        "buttonId",
+        fetchFromServer
+      );
+      expect((await forButton("projectId1", 3)).components[0].fileContent).toBe(
+        "stored"
+      );
+      expect(fetchFromServer).not.toHaveBeenCalled();
+
+      const forContainer = makeMergeBaseProvider(
+        context,
+        "containerId",
+        fetchFromServer
+      );
+      await forContainer("projectId1", 3);
+      await forContainer("projectId1", 3);
+      expect(fetchFromServer).toHaveBeenCalledTimes(1);
+    });
+
+    expect(storedContent("buttonId", 3)).toEqual("stored");
+    expect(storedContent("containerId", 3)).toEqual("container projectId1@3");
+  });
+
+  test("are deleted per project", async () => {
+    await withBufferedFs(async () => {
+      saveMergeBase(context, "projectId1", 3, skeleton("buttonId", "p1"));
+      saveMergeBase(context, "projectId2", 3, skeleton("buttonId", "p2"));
+    });
+    await withBufferedFs(async () => {
+      deleteMergeBases(context, "projectId1");
+    });
+
+    expect(storedContent("buttonId", 3)).toBeUndefined();
+    expect(
+      readMergeBase(context, "projectId2", "buttonId", 3)?.fileContent
+    ).toEqual("p2");
+  });
+});
@@ -0,0 +1,117 @@
+import fs from "fs";
+import path from "upath";
+import { move } from "../actions/move";
+import { sync } from "../actions/sync";
+import {
+  opts,
+  standardTestSetup,
+  standardTestTeardown,
+  tmpRepo,
+} from "../test-common/fixtures";
+import { stripExtension } from "../utils/file-utils";
+
+jest.mock("../api");
+
+beforeEach(() => {
+  standardTestSetup();
+});
+
+afterEach(() => {
+  standardTestTeardown();
+});
+
+function getButton() {
+  const button = tmpRepo
+    .readPlasmicJson()
+    .projects.find((p) => p.projectId === "projectId1")
+    ?.components.find((c) => c.id === "buttonId");
+  if (!button) {
+    throw new Error("Button has not been synced");
+  }
+  return button;
+}
+
+function importPath(fromPath: string, toPath: string) {
+  const result = stripExtension(path.relative(path.dirname(fromPath), toPath));
+  return result.startsWith(".") ? result : `./${result}`;
+}
+
+describe("move", () => {
+  test("moves a component's files and rewrites imports", async () => {
+    opts.projects = ["projectId1"];
+    await expect(sync(opts)).resolves.toBeUndefined();
+
+    const before = getButton();
+    const skeleton = `src/${before.importSpec.modulePath}`;
+    tmpRepo.writeFile(
+      skeleton,
+      `import { PlasmicButton } from "${importPath(
+        before.importSpec.modulePath,
+        before.renderModuleFilePath
+      )}";\n${tmpRepo.readFile(skeleton)}`
+    );
+    tmpRepo.writeFile(
+      "src/App.tsx",
+      `import Button from '${importPath(
+        "App.tsx",
+        before.importSpec.modulePath
+      )}';\nconst lazy = () => import("./Other");\n`
+    );
+    // A type assertion, which only parses if the file isn't taken for JSX
+    const buttonImport = importPath("util.ts", before.importSpec.modulePath);
+    tmpRepo.writeFile(
+      "src/util.ts",
+      `import Button from "${buttonImport}";\nexport const b = <unknown>Button;\n`
+    );
+    fs.mkdirSync(tmpRepo.resolveFile("dist"));
+    const built = `require("../src/${stripExtension(
+      before.importSpec.modulePath
+    )}");\n`;
+    tmpRepo.writeFile("dist/App.js", built);
+
+    await expect(
+      move({ ...opts, component: "Button", newPath: "ui/MyButton.tsx" })
+    ).resolves.toBeUndefined();
+
+    const after = getButton();
+    expect(after.importSpec.modulePath).toEqual("ui/MyButton.tsx");
+    expect(after.renderModuleFilePath).toEqual(
+      `ui/${path.basename(before.renderModuleFilePath)}`
+    );
+    expect(after.cssFilePath).toEqual(
+      `ui/${path.basename(before.cssFilePath)}`
+    );
+    for (const [oldPath, newPath] of [
+      [before.importSpec.modulePath, after.importSpec.modulePath],
+      [before.renderModuleFilePath, after.renderModuleFilePath],
+      [before.cssFilePath, after.cssFilePath],
+    ]) {
+      expect(tmpRepo.checkFile(`src/${oldPath}`)).toBe(false);
+      expect(tmpRepo.checkFile(`src/${newPath}`)).toBe(true);
+    }
+
+    expect(tmpRepo.readFile("src/App.tsx")).toEqual(
+      `import Button from './ui/MyButton';\nconst lazy = () => import("./Other");\n`
+    );
+    expect(tmpRepo.readFile("src/util.ts")).toContain(
+      `import Button from "./ui/MyButton";`
+    );
+    expect(tmpRepo.readFile("dist/App.js")).toEqual(built);
+    expect(tmpRepo.readFile("src/ui/MyButton.tsx")).toContain(
+      `import { PlasmicButton } from "./${stripExtension(
+        path.basename(before.renderModuleFilePath)
+      )}";`
+    );
+  });
+
+  test("refuses to overwrite existing files", async () => {
+    opts.projects = ["projectId1"];
+    await expect(sync(opts)).resolves.toBeUndefined();
+    tmpRepo.writeFile("src/Other.tsx", "");
+
+    await expect(
+      move({ ...opts, component: "Button", newPath: "Other.tsx" })
+    ).rejects.toThrow("Other.tsx exists");
+    expect(getButton().importSpec.modulePath).not.toEqual("Other.tsx");
+  });
+});
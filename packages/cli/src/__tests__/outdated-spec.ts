@@ -0,0 +1,66 @@
+import { outdated } from "../actions/outdated";
+import { sync } from "../actions/sync";
+import { logger } from "../deps";
+import {
+  mockApi,
+  opts,
+  standardTestSetup,
+  standardTestTeardown,
+  tmpRepo,
+} from "../test-common/fixtures";
+
+jest.mock("../api");
+
+beforeEach(() => {
+  standardTestSetup();
+});
+
+afterEach(() => {
+  standardTestTeardown();
+});
+
+async function captureOutdated() {
+  const output: string[] = [];
+  const spy = jest
+    .spyOn(logger, "info")
+    .mockImplementation((line: any) => output.push(line) as any);
+  try {
+    await outdated({ ...opts, projects: [] });
+    // Without colors
+    // eslint-disable-next-line no-control-regex
+    return output.map((line) => line.replace(/\u001b\[\d+m/g, ""));
+  } finally {
+    spy.mockRestore();
+  }
+}
+
+describe("outdated", () => {
+  test("reports nothing right after a sync", async () => {
+    opts.projects = ["projectId1"];
+    await expect(sync(opts)).resolves.toBeUndefined();
+
+    expect(await captureOutdated()).toEqual(["All projects are up to date."]);
+  });
+
+  test("lists the current, wanted and latest versions", async () => {
+    opts.projects = ["projectId1"];
+    await expect(sync(opts)).resolves.toBeUndefined();
+    const plasmicJson = tmpRepo.readPlasmicJson();
+    plasmicJson.projects.forEach((p) => {
+      p.version = p.projectId === "projectId1" ? "~1.2.0" : "^2.0.0";
+    });
+    tmpRepo.writePlasmicJson(plasmicJson);
+
+    const project = mockApi.getMockProject("projectId1", "1.2.3");
+    mockApi.addMockProject({ ...project, version: "1.2.5" });
+    mockApi.addMockProject({ ...project, version: "1.3.0" });
+    const dep = mockApi.getMockProject("dependencyId1", "2.3.4");
+    mockApi.addMockProject({ ...dep, version: "3.0.0" });
+
+    expect(await captureOutdated()).toEqual([
+      "Project        Current  Wanted  Latest  Range   Depended by",
+      "dependencyId1  2.3.4    2.3.4   3.0.0   ^2.0.0  projectId1",
+      "projectId1     1.2.3    1.2.5   1.3.0   ~1.2.0",
+    ]);
+  });
+});
@@ -0,0 +1,90 @@
+import { sync } from "../actions/sync";
+import {
+  opts,
+  standardTestSetup,
+  standardTestTeardown,
+  tmpRepo,
+} from "../test-common/fixtures";
+
+jest.mock("../api");
+
+beforeEach(() => {
+  standardTestSetup();
+  opts.projects = ["projectId1"];
+  opts.nonRecursive = true;
+});
+
+afterEach(() => {
+  standardTestTeardown();
+});
+
+function usePlugins(plugins: string[]) {
+  const plasmicJson = tmpRepo.readPlasmicJson();
+  plasmicJson.plugins = plugins;
+  tmpRepo.writePlasmicJson(plasmicJson);
+}
+
+function getButton() {
+  return tmpRepo
+    .readPlasmicJson()
+    .projects.find((p) => p.projectId === "projectId1")
+    ?.components.find((c) => c.id === "buttonId");
+}
+
+describe("plugins", () => {
+  test("calls the hooks of each plugin", async () => {
+    tmpRepo.writeFile(
+      "plugin.js",
+      `const fs = require("fs");
+const log = (line) => fs.appendFileSync(__dirname + "/hooks.log", line + "\\n");
+exports.beforeSync = (context) => log("beforeSync " + context.config.projects.length);
+exports.transformFile = ({ type, content }) =>
+  type === "cssRules" ? "/* License */\\n" + content : undefined;
+exports.afterComponentSync = (component) =>
+  log(
+    "afterComponentSync " + component.name + " " +
+      fs.existsSync(__dirname + "/src/" + component.renderModuleFilePath)
+  );
+exports.afterSync = (summary) =>
+  log("afterSync " + summary.components.map((c) => c.name).join(","));
+`
+    );
+    tmpRepo.writeFile(
+      "upper.js",
+      `module.exports = {
+  transformFile: ({ type, content }) =>
+    type === "cssRules" || type === "defaultStyleCss"
+      ? content.toUpperCase()
+      : undefined,
+};
+`
+    );
+    usePlugins(["./plugin.js", "./upper.js"]);
+    await expect(sync(opts)).resolves.toBeUndefined();
+
+    expect(tmpRepo.readFile("hooks.log").trim().split("\n")).toEqual([
+      "beforeSync 0",
+      "afterComponentSync Button true",
+      "afterComponentSync Container true",
+      "afterSync Button,Container",
+    ]);
+    expect(tmpRepo.readFile(`src/${getButton()?.cssFilePath}`)).toMatch(
+      /^\/\* LICENSE \*\/\nTHECLASS/
+    );
+    const { defaultStyleCssFilePath } = tmpRepo.readPlasmicJson().style;
+    expect(tmpRepo.readFile(`src/${defaultStyleCssFilePath}`)).toMatch(
+      /^THECLASS/
+    );
+  });
+
+  test("fails with the name of the plugin whose hook failed", async () => {
+    tmpRepo.writeFile(
+      "plugin.js",
+      `exports.afterComponentSync = () => { throw new Error("boom"); };`
+    );
+    usePlugins(["./plugin.js"]);
+    await expect(sync(opts)).rejects.toThrow(
+      "afterComponentSync() in the plugin ./plugin.js failed: boom"
+    );
+  });
+});
@@ -0,0 +1,88 @@
+import fs from "fs";
+import { remove } from "../actions/remove";
+import { sync } from "../actions/sync";
+import {
+  opts,
+  standardTestSetup,
+  standardTestTeardown,
+  tmpRepo,
+} from "../test-common/fixtures";
+
+jest.mock("../api");
+
+beforeEach(() => {
+  standardTestSetup();
+});
+
+afterEach(() => {
+  standardTestTeardown();
+});
+
+function makeToken(name: string, projectId: string) {
+  return { name, type: "color", value: "#fff", meta: { projectId, id: name } };
+}
+
+describe("remove", () => {
+  test("refuses to remove a dependency of a synced project", async () => {
+    opts.projects = ["projectId1"];
+    await expect(sync(opts)).resolves.toBeUndefined();
+
+    await expect(
+      remove({ ...opts, projects: ["dependencyId1"] })
+    ).rejects.toThrow("depend(s) on it");
+    expect(
+      tmpRepo.readPlasmicJson().projects.map((p) => p.projectId)
+    ).toContain("dependencyId1");
+  });
+
+  test("deletes the project's files, config, lock and tokens", async () => {
+    opts.projects = ["projectId1"];
+    await expect(sync(opts)).resolves.toBeUndefined();
+
+    const config = tmpRepo.readPlasmicJson();
+    const project = config.projects.find((p) => p.projectId === "projectId1");
+    const tokensPath = `src/${config.tokens.tokensFilePath}`;
+    tmpRepo.writeFile(
+      tokensPath,
+      JSON.stringify({
+        props: [
+          makeToken("removed", "projectId1"),
+          makeToken("kept", "dependencyId1"),
+        ],
+        global: { meta: { source: "plasmic.app" } },
+      })
+    );
+    const mergeBasePath = ".plasmic/merge-bases/projectId1/buttonId.json";
+    fs.mkdirSync(tmpRepo.resolveFile(".plasmic/merge-bases/projectId1"), {
+      recursive: true,
+    });
+    tmpRepo.writeFile(mergeBasePath, "{}");
+
+    await expect(
+      remove({ ...opts, projects: ["projectId1"] })
+    ).resolves.toBeUndefined();
+
+    for (const component of project?.components ?? []) {
+      for (const filePath of [
+        component.renderModuleFilePath,
+        component.cssFilePath,
+        component.importSpec.modulePath,
+      ]) {
+        expect(tmpRepo.checkFile(`src/${filePath}`)).toBe(false);
+      }
+    }
+    expect(tmpRepo.checkFile(`src/${project?.cssFilePath}`)).toBe(false);
+    expect(tmpRepo.checkFile(mergeBasePath)).toBe(false);
+    expect(tmpRepo.readPlasmicJson().projects.map((p) => p.projectId)).toEqual([
+      "dependencyId1",
+    ]);
+    expect(
+      JSON.parse(tmpRepo.readFile("plasmic.lock")).projects.map(
+        (p: any) => p.projectId
+      )
+    ).toEqual(["dependencyId1"]);
+    expect(
+      JSON.parse(tmpRepo.readFile(tokensPath)).props.map((p: any) => p.name)
+    ).toEqual(["kept"]);
+  });
+});
@@ -0,0 +1,96 @@
+import { sync } from "../actions/sync";
+import { logger } from "../deps";
+import {
+  mockApi,
+  opts,
+  standardTestSetup,
+  standardTestTeardown,
+} from "../test-common/fixtures";
+import { CliEvent } from "../utils/reporter";
+
+jest.mock("../api");
+
+beforeEach(() => {
+  standardTestSetup();
+  // Under jest, logs sent to stderr end up on stdout as well
+  logger.silent = true;
+});
+
+afterEach(() => {
+  logger.silent = false;
+  standardTestTeardown();
+});
+
+async function syncEvents() {
+  const output: string[] = [];
+  const spy = jest
+    .spyOn(process.stdout, "write")
+    .mockImplementation((chunk: any) => output.push(`${chunk}`) > 0);
+  try {
+    await expect(sync({ ...opts, json: true })).resolves.toBeUndefined();
+  } finally {
+    spy.mockRestore();
+  }
+  const lines = output
+    .join("")
+    .split("\n")
+    .filter((line) => line);
+  return lines.map((line) => JSON.parse(line) as CliEvent);
+}
+
+describe("--json", () => {
+  test("writes a line of JSON per event to stdout", async () => {
+    opts.projects = ["projectId1"];
+    const events = await syncEvents();
+
+    expect(events.filter((e) => e.type === "project-synced")).toEqual(
+      expect.arrayContaining([
+        {
+          type: "project-synced",
+          projectId: "projectId1",
+          projectName: "projectId1",
+          version: "1.2.3",
+        },
+        expect.objectContaining({
+          type: "project-synced",
+          projectId: "dependencyId1",
+        }),
+      ])
+    );
+    const button = events.find(
+      (e) => e.type === "component-synced" && e.componentId === "buttonId"
+    );
+    expect(button).toMatchObject({
+      projectId: "projectId1",
+      name: "Button",
+      version: "1.2.3",
+      isNew: true,
+    });
+  });
+
+  test("reports deleted components", async () => {
+    opts.projects = ["projectId1"];
+    await syncEvents();
+    const project = mockApi.getMockProject("projectId1", "1.2.3");
+    mockApi.addMockProject({
+      ...project,
+      version: "1.3.0",
+      components: project.components.filter(
+        (c: { id: string }) => c.id !== "containerId"
+      ),
+    });
+
+    const events = await syncEvents();
+    expect(events).toContainEqual({
+      type: "component-deleted",
+      projectId: "projectId1",
+      componentId: "containerId",
+      name: "Container",
+    });
+    expect(
+      events.find(
+        (e) => e.type === "component-synced" && e.componentId === "buttonId"
+      )
+    ).toMatchObject({ version: "1.3.0", isNew: false });
+  });
+});
@@ -0,0 +1,77 @@
+import { rollback } from "../actions/rollback";
+import { sync } from "../actions/sync";
+import { logger } from "../deps";
+import {
+  mockApi,
+  opts,
+  standardTestSetup,
+  standardTestTeardown,
+  tmpRepo,
+} from "../test-common/fixtures";
+
+jest.mock("../api");
+
+beforeEach(() => {
+  standardTestSetup();
+});
+
+afterEach(() => {
+  standardTestTeardown();
+});
+
+function rollbackOpts(extra?: { list?: boolean; to?: string }) {
+  return { ...opts, count: 10, ...extra };
+}
+
+async function syncTwice() {
+  opts.projects = ["projectId1"];
+  opts.nonRecursive = true;
+  await expect(sync(opts)).resolves.toBeUndefined();
+  const mockProject = mockApi.getMockProject("projectId1", "1.2.3");
+  mockApi.addMockProject({ ...mockProject, version: "1.3.4" });
+  await expect(sync(opts)).resolves.toBeUndefined();
+}
+
+function syncedButtonVersion() {
+  return mockApi.stringToMockComponent(
+    tmpRepo.getComponentFileContents("projectId1", "buttonId")
+  )?.version;
+}
+
+describe("rollback", () => {
+  test("restores the files changed by the last sync", async () => {
+    await syncTwice();
+    expect(syncedButtonVersion()).toEqual("1.3.4");
+
+    await expect(rollback(rollbackOpts())).resolves.toBeUndefined();
+    expect(syncedButtonVersion()).toEqual("1.2.3");
+    expect(
+      JSON.parse(tmpRepo.readFile("plasmic.lock")).projects[0].version
+    ).toEqual("1.2.3");
+  });
+
+  test("rolls back several syncs", async () => {
+    await syncTwice();
+    const output: string[] = [];
+    const spy = jest
+      .spyOn(logger, "info")
+      .mockImplementation((line: any) => output.push(line) as any);
+    await rollback(rollbackOpts({ list: true }));
+    spy.mockRestore();
+    expect(output.length).toEqual(2);
+    expect(output[0]).toContain("sync project1@1.3.4");
+    expect(output[1]).toContain("sync project1@1.2.3");
+
+    const firstSnapshot = output[1].split(" ")[0];
+    await expect(
+      rollback(rollbackOpts({ to: firstSnapshot }))
+    ).resolves.toBeUndefined();
+    expect(tmpRepo.checkFile("src/Button.tsx")).toBeFalsy();
+    expect(tmpRepo.checkFile("plasmic.lock")).toBeFalsy();
+    expect(tmpRepo.readPlasmicJson().projects).toEqual([]);
+
+    await expect(rollback(rollbackOpts())).rejects.toThrow(
+      "There are no sync snapshots to roll back to."
+    );
+  });
+});
@@ -0,0 +1,132 @@
+import { formatWithPrettier } from "../utils/code-utils";
+import {
+  liftOverridesIntoJsx,
+  wrapJsxIntoOverrides,
+} from "../utils/scheme-utils";
+
+const BLACKBOX_SKELETON = `import * as React from "react";
+import {
+  PlasmicButton,
+  DefaultButtonProps,
+} from "./plasmic/PlasmicButton"; // plasmic-import: buttonId/render
+
+interface ButtonProps extends DefaultButtonProps {}
+
+function Button(props: ButtonProps) {
+  return <PlasmicButton {...props} />;
+}
+
+export default Button;
+`;
+
+const DIRECT_SKELETON = `import * as React from "react";
+import {
+  PlasmicButton__RenderHelper,
+  PlasmicButton__VariantsArgs,
+  PlasmicButton__ArgsType,
+} from "./plasmic/PlasmicButton"; // plasmic-import: buttonId/render
+import "./plasmic/plasmic__default_style.css"; // plasmic-import: global/defaultcss
+
+interface ButtonProps {
+  className?: string;
+}
+
+function Button(props: ButtonProps) {
+  const variants: PlasmicButton__VariantsArgs = {};
+  const args: PlasmicButton__ArgsType = {};
+  const rh = new PlasmicButton__RenderHelper(variants, args, props.className);
+  // plasmic-managed-jsx/12
+  return (
+    <button className={rh.clsRoot()}>
+      <div className={rh.clsLabel()}>Click</div>
+      <div {...rh.propsIcon()} />
+    </button>
+  );
+}
+
+export default Button;
+`;
+
+const format = (code: string) => formatWithPrettier(code, "/tmp/Button.tsx");
+
+describe("scheme-utils", () => {
+  test("lifts overrides into the JSX tree", () => {
+    const edited = BLACKBOX_SKELETON.replace(
+      "interface ButtonProps extends DefaultButtonProps {}",
+      "interface ButtonProps extends DefaultButtonProps {\n  onPress?: () => void;\n}"
+    ).replace(
+      "return <PlasmicButton {...props} />;",
+      `const { onPress, ...rest } = props;
+  return (
+    <PlasmicButton
+      {...rest}
+      root={{ onClick: onPress }}
+      label={{ props: { children: "Press me" } }}
+      icon={<span />}
+    />
+  );`
+    );
+    const { code, warnings } = liftOverridesIntoJsx(
+      edited,
+      DIRECT_SKELETON,
+      "Button"
+    );
+    const formatted = format(code);
+    expect(formatted).toContain(
+      `<button className={rh.clsRoot()} onClick={onPress}>`
+    );
+    expect(formatted).toContain(
+      `<div className={rh.clsLabel()}>{"Press me"}</div>`
+    );
+    expect(formatted).toMatch(/<div \{\.\.\.rh\.propsIcon\(\)\}>\s*<span \/>/);
+    expect(formatted).toContain(`const { onPress, ...rest } = props;`);
+    expect(formatted).not.toContain("<PlasmicButton");
+    // PlasmicButton is not used anymore, while the default css is imported
+    expect(formatted).not.toMatch(/\bPlasmicButton,/);
+    expect(formatted).toContain(
+      `} from "./plasmic/PlasmicButton"; // plasmic-import: buttonId/render\n` +
+        `import "./plasmic/plasmic__default_style.css"; // plasmic-import: global/defaultcss`
+    );
+    expect(warnings).toEqual(["Could not lift {...rest} into the JSX tree."]);
+  });
+
+  test("wraps the JSX tree into overrides", () => {
+    const edited = DIRECT_SKELETON.replace(
+      "<button className={rh.clsRoot()}>",
+      "<button className={rh.clsRoot()} onClick={() => alert(1)}>"
+    ).replace(
+      "<div className={rh.clsLabel()}>Click</div>",
+      "<div className={rh.clsLabel()}>{props.className}</div>"
+    );
+    const { code, warnings } = wrapJsxIntoOverrides(
+      edited,
+      BLACKBOX_SKELETON,
+      "Button",
+      DIRECT_SKELETON
+    );
+    const formatted = format(code);
+    expect(formatted).toContain(`root={{ onClick: () => alert(1) }}`);
+    expect(formatted).toContain(`label={{ children: props.className }}`);
+    expect(formatted).toContain(`variants={variants}`);
+    expect(formatted).toContain(`className={props.className}`);
+    expect(formatted).not.toContain("plasmic-managed-jsx");
+    expect(formatted).not.toContain("RenderHelper");
+    expect(formatted).not.toContain("icon=");
+    expect(warnings).toEqual([
+      "The children of root were edited, but they contain other named nodes, so the edits were left out.",
+    ]);
+  });
+
+  test("leaves out edited children without a base to compare against", () => {
+    const { code, warnings } = wrapJsxIntoOverrides(
+      DIRECT_SKELETON,
+      BLACKBOX_SKELETON,
+      "Button",
+      undefined
+    );
+    expect(format(code)).toMatch(
+      /<PlasmicButton\s+variants=\{variants\}\s+args=\{args\}\s+className=\{props\.className\}\s+\/>/
+    );
+    expect(warnings.length).toBeGreaterThan(0);
+  });
+});
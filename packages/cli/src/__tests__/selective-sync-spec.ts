@@ -0,0 +1,88 @@
+import { sync } from "../actions/sync";
+import {
+  mockApi,
+  opts,
+  standardTestSetup,
+  standardTestTeardown,
+  tmpRepo,
+} from "../test-common/fixtures";
+
+jest.mock("../api");
+
+beforeEach(() => {
+  standardTestSetup();
+  opts.projects = ["projectId1"];
+  opts.nonRecursive = true;
+});
+
+afterEach(() => {
+  standardTestTeardown();
+});
+
+function componentVersion(componentId: string) {
+  return mockApi.stringToMockComponent(
+    tmpRepo.getComponentFileContents("projectId1", componentId)
+  )?.version;
+}
+
+function project1Lock() {
+  const lock = JSON.parse(tmpRepo.readFile("plasmic.lock"));
+  return lock.projects.find((p: any) => p.projectId === "projectId1");
+}
+
+function publishProject1(version: string) {
+  const mockProject = mockApi.getMockProject("projectId1", "1.2.3");
+  mockApi.addMockProject({ ...mockProject, version });
+}
+
+describe("selective-sync", () => {
+  test("syncs only the given components", async () => {
+    opts.components = ["Butt*"];
+    await expect(sync(opts)).resolves.toBeUndefined();
+
+    const project = tmpRepo
+      .readPlasmicJson()
+      .projects.find((p) => p.projectId === "projectId1");
+    expect(project?.components.map((c) => c.name)).toEqual(["Button"]);
+    // There's no previous version to keep on the first sync
+    expect(project1Lock().version).toEqual("1.2.3");
+
+    opts.components = [];
+    await expect(sync(opts)).resolves.toBeUndefined();
+    expect(componentVersion("containerId")).toEqual("1.2.3");
+  });
+
+  test("keeps the lock version when skipping components", async () => {
+    await expect(sync(opts)).resolves.toBeUndefined();
+    publishProject1("2.0.0");
+
+    opts.excludeComponents = ["containerId"];
+    await expect(sync(opts)).resolves.toBeUndefined();
+    expect(componentVersion("buttonId")).toEqual("2.0.0");
+    expect(componentVersion("containerId")).toEqual("1.2.3");
+    expect(project1Lock().version).toEqual("1.2.3");
+
+    opts.excludeComponents = [];
+    await expect(sync(opts)).resolves.toBeUndefined();
+    expect(componentVersion("containerId")).toEqual("2.0.0");
+    expect(project1Lock().version).toEqual("2.0.0");
+  });
+
+  test("never syncs ignored components", async () => {
+    await expect(sync(opts)).resolves.toBeUndefined();
+    const plasmicJson = tmpRepo.readPlasmicJson();
+    const project = plasmicJson.projects.find(
+      (p) => p.projectId === "projectId1"
+    );
+    if (project) {
+      project.ignore = ["Container"];
+    }
+    tmpRepo.writePlasmicJson(plasmicJson);
+    publishProject1("2.0.0");
+
+    await expect(sync(opts)).resolves.toBeUndefined();
+    expect(componentVersion("buttonId")).toEqual("2.0.0");
+    expect(componentVersion("containerId")).toEqual("1.2.3");
+    expect(project1Lock().version).toEqual("2.0.0");
+  });
+});
@@ -0,0 +1,77 @@
+import fs from "fs";
+import { status } from "../actions/status";
+import { sync } from "../actions/sync";
+import { logger } from "../deps";
+import {
+  opts,
+  standardTestSetup,
+  standardTestTeardown,
+  tmpRepo,
+} from "../test-common/fixtures";
+
+jest.mock("../api");
+
+beforeEach(() => {
+  standardTestSetup();
+  // eslint-disable-next-line no-restricted-properties
+  fs.mkdirSync(tmpRepo.resolveFile("node_modules/@plasmicapp/react-web"), {
+    recursive: true,
+  });
+  tmpRepo.writeFile(
+    "node_modules/@plasmicapp/react-web/package.json",
+    JSON.stringify({ name: "@plasmicapp/react-web", version: "0.0.1" })
+  );
+});
+
+afterEach(() => {
+  standardTestTeardown();
+});
+
+async function captureStatus() {
+  const output: string[] = [];
+  const spy = jest
+    .spyOn(logger, "info")
+    .mockImplementation((line: any) => output.push(line) as any);
+  try {
+    await status({ ...opts, projects: [] });
+    return { output: output.join("\n"), error: undefined };
+  } catch (e) {
+    return { output: output.join("\n"), error: e };
+  } finally {
+    spy.mockRestore();
+  }
+}
+
+describe("status", () => {
+  test("passes right after a sync", async () => {
+    opts.projects = ["projectId1"];
+    await expect(sync(opts)).resolves.toBeUndefined();
+
+    const { output, error } = await captureStatus();
+    expect(error).toBeUndefined();
+    expect(output).toContain("Everything is in sync.");
+  });
+
+  test("reports missing, modified and orphaned files", async () => {
+    opts.projects = ["projectId1"];
+    await expect(sync(opts)).resolves.toBeUndefined();
+
+    const project = tmpRepo
+      .readPlasmicJson()
+      .projects.find((p) => p.projectId === "projectId1");
+    const button = project?.components.find((c) => c.id === "buttonId");
+    const container = project?.components.find((c) => c.id === "containerId");
+    const cssPath = `src/${button?.cssFilePath}`;
+    tmpRepo.writeFile(cssPath, tmpRepo.readFile(cssPath) + "\n.edited {}\n");
+    tmpRepo.deleteFile(`src/${container?.renderModuleFilePath}`);
+    tmpRepo.writeFile("src/plasmic/PlasmicStale.tsx", "");
+
+    const { output, error } = await captureStatus();
+    expect(error?.message).toEqual("Found 3 problem(s).");
+    expect(output).toContain(`Button: modified ${button?.cssFilePath}`);
+    expect(output).toContain(
+      `Container: missing ${container?.renderModuleFilePath}`
+    );
+    expect(output).toContain("plasmic/PlasmicStale.tsx");
+  });
+});
@@ -0,0 +1,172 @@
+import { ComponentBundle } from "../api";
+import { sync } from "../actions/sync";
+import { syncStory } from "../actions/sync-stories";
+import {
+  mockApi,
+  opts,
+  standardTestSetup,
+  standardTestTeardown,
+  tmpRepo,
+} from "../test-common/fixtures";
+
+jest.mock("../api");
+
+beforeEach(() => {
+  standardTestSetup();
+  opts.projects = ["projectId1"];
+  opts.nonRecursive = true;
+  useStories(true);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  standardTestTeardown();
+});
+
+function useStories(stories: boolean) {
+  const plasmicJson = tmpRepo.readPlasmicJson();
+  plasmicJson.code.stories = stories;
+  tmpRepo.writePlasmicJson(plasmicJson);
+}
+
+// Like the server, leaves the components that haven't changed out of the
+// bundle
+function omitUnchangedComponents() {
+  const projectComponents = mockApi.PlasmicApi.prototype.projectComponents;
+  jest
+    .spyOn(mockApi.PlasmicApi.prototype, "projectComponents")
+    .mockImplementation(async function (this: unknown, ...args: any[]) {
+      const bundle = await projectComponents.apply(this, args);
+      const synced = new Map(args[8].renderModuleChecksums);
+      return {
+        ...bundle,
+        components: bundle.components.filter(
+          (c: ComponentBundle) => synced.get(c.id) !== c.renderModule
+        ),
+      };
+    });
+}
+
+function publishProject1(version: string) {
+  const mockProject = mockApi.getMockProject("projectId1", "1.2.3");
+  mockApi.addMockProject({ ...mockProject, version });
+}
+
+describe("stories", () => {
+  test("writes a story for each variant combination", async () => {
+    const component = {
+      id: "buttonId",
+      name: "Button",
+      type: "managed" as const,
+      projectId: "projectId1",
+      renderModuleFilePath: "plasmic/PlasmicButton.tsx",
+      cssFilePath: "plasmic/PlasmicButton.css",
+      importSpec: { modulePath: "Button.tsx" },
+      scheme: "blackbox" as const,
+      componentType: "component" as const,
+    };
+    const context = {
+      config: { code: { lang: "ts" } },
+      lock: { projects: [] },
+      cliArgs: { quiet: true },
+      absoluteSrcDir: tmpRepo.resolveFile("src"),
+      plugins: [],
+    } as any;
+    await syncStory(
+      context,
+      { projectName: "Design System" } as any,
+      component,
+      `export type PlasmicButton__VariantsArgs = {
+        isDisabled?: SingleBooleanChoiceArg<"isDisabled">;
+        size?: SingleChoiceArg<"small" | "large">;
+      };`
+    );
+
+    const story = tmpRepo.readFile("src/Button.stories.tsx");
+    expect(story).toContain(`import Button from "./Button";`);
+    expect(story).toContain(`title: "Design System/Button"`);
+    expect(story).toContain(
+      `size: { control: { type: "select" }, options: ["small", "large"] },`
+    );
+    expect(story).toContain(
+      `export const Default = (args: React.ComponentProps<typeof Button>) => (`
+    );
+    for (const expected of [
+      `export const IsDisabled = () => <Button isDisabled />;`,
+      `export const SizeSmall = () => <Button size={"small"} />;`,
+      `export const IsDisabledSizeLarge = () => <Button isDisabled size={"large"} />;`,
+    ]) {
+      expect(story).toContain(expected);
+    }
+    expect(story.match(/^export const/gm)).toHaveLength(6);
+  });
+
+  test("writes the variant stories of javascript projects", async () => {
+    const plasmicJson = tmpRepo.readPlasmicJson();
+    plasmicJson.code.lang = "js";
+    tmpRepo.writePlasmicJson(plasmicJson);
+    const projectComponents = mockApi.PlasmicApi.prototype.projectComponents;
+    jest
+      .spyOn(mockApi.PlasmicApi.prototype, "projectComponents")
+      .mockImplementation(async function (this: unknown, ...args: any[]) {
+        const bundle = await projectComponents.apply(this, args);
+        return {
+          ...bundle,
+          components: bundle.components.map((c: ComponentBundle) =>
+            c.componentName !== "Button"
+              ? c
+              : {
+                  ...c,
+                  renderModule: `export type PlasmicButton__VariantsArgs = {
+                    isDisabled?: SingleBooleanChoiceArg<"isDisabled">;
+                  };`,
+                }
+          ),
+        };
+      });
+
+    await expect(sync(opts)).resolves.toBeUndefined();
+    const story = tmpRepo.readFile("src/Button.stories.jsx");
+    expect(story).toContain(`isDisabled: { control: { type: "boolean" } },`);
+    expect(story).toContain(
+      `export const IsDisabled = () => <Button isDisabled />;`
+    );
+  });
+
+  test("regenerates stories unless they were edited", async () => {
+    await expect(sync(opts)).resolves.toBeUndefined();
+    expect(tmpRepo.readFile("src/Button.stories.tsx")).toContain(
+      `export const Default`
+    );
+    tmpRepo.deleteFile("src/Container.stories.tsx");
+    tmpRepo.writeFile(
+      "src/Button.stories.tsx",
+      `export const Mine = () => null;\n`
+    );
+
+    publishProject1("2.0.0");
+    await expect(sync(opts)).resolves.toBeUndefined();
+    expect(tmpRepo.readFile("src/Button.stories.tsx")).toEqual(
+      `export const Mine = () => null;\n`
+    );
+    expect(tmpRepo.readFile("src/Container.stories.tsx")).toContain(
+      `export const Default`
+    );
+  });
+
+  test("writes the missing stories of components that are up to date", async () => {
+    useStories(false);
+    await expect(sync(opts)).resolves.toBeUndefined();
+    expect(tmpRepo.checkFile("src/Button.stories.tsx")).toBe(false);
+
+    useStories(true);
+    omitUnchangedComponents();
+    await expect(sync(opts)).resolves.toBeUndefined();
+    expect(tmpRepo.readFile("src/Button.stories.tsx")).toContain(
+      `export const Default`
+    );
+    expect(tmpRepo.readFile("src/Container.stories.tsx")).toContain(
+      `export const Default`
+    );
+  });
+});
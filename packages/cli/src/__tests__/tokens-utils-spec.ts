@@ -0,0 +1,79 @@
+import { StyleTokensMap } from "../api";
+import { fillDefaults, TokensConfig } from "../utils/config-utils";
+import {
+  emptyStyleTokensMap,
+  parseStyleTokens,
+  serializeStyleTokens,
+} from "../utils/tokens-utils";
+
+function mkStyleMap(): StyleTokensMap {
+  const styleMap = emptyStyleTokensMap();
+  styleMap.props = [
+    {
+      name: "Primary color",
+      type: "Color",
+      value: "#1a73e8",
+      meta: { projectId: "projectId1", id: "token1" },
+    },
+    {
+      name: "2xl spacing",
+      type: "Spacing",
+      value: "32px",
+      meta: { projectId: "projectId1", id: "token2" },
+    },
+    {
+      name: "primary-color",
+      type: "Color",
+      value: "rgba(0, 0, 0, 0.5)",
+      meta: { projectId: "projectId2", id: "token3" },
+    },
+  ];
+  return styleMap;
+}
+
+const schemes: TokensConfig["scheme"][] = [
+  "theo",
+  "css-variables",
+  "scss",
+  "ts",
+  "w3c",
+];
+
+describe("tokens-utils", function () {
+  it.each(schemes)("%s tokens should be read back", function (scheme) {
+    const styleMap = mkStyleMap();
+    expect(parseStyleTokens(serializeStyleTokens(scheme, styleMap))).toEqual(
+      styleMap
+    );
+  });
+
+  it("should give colliding tokens distinct names", function () {
+    expect(serializeStyleTokens("css-variables", mkStyleMap())).toContain(
+      "  --primary-color2: rgba(0, 0, 0, 0.5);"
+    );
+    const ts = serializeStyleTokens("ts", mkStyleMap());
+    expect(ts).toContain('export const primaryColor = "#1a73e8";');
+    expect(ts).toContain('export const primaryColor2 = "rgba(0, 0, 0, 0.5)";');
+    expect(ts).toContain('export const _2XlSpacing = "32px";');
+  });
+
+  it("w3c tokens should have standard types", function () {
+    const json = JSON.parse(serializeStyleTokens("w3c", mkStyleMap()));
+    expect(json["primary-color"].$type).toEqual("color");
+    expect(json["2-xl-spacing"].$type).toEqual("dimension");
+  });
+
+  it("should default the file extension to the scheme's", function () {
+    expect(fillDefaults({}).tokens.tokensFilePath).toEqual(
+      "plasmic-tokens.theo.json"
+    );
+    expect(
+      fillDefaults({ tokens: { scheme: "scss" } }).tokens.tokensFilePath
+    ).toEqual("plasmic-tokens.scss");
+    expect(
+      fillDefaults({
+        tokens: { scheme: "css-variables", tokensFilePath: "tokens.css" },
+      }).tokens.tokensFilePath
+    ).toEqual("tokens.css");
+  });
+});
@@ -0,0 +1,102 @@
+import { mkFixImportContext, replaceImports } from "../utils/code-utils";
+import { TempRepo } from "../utils/test-utils";
+import {
+  readPathAliases,
+  resolveAliasedPath,
+  toAliasedPath,
+} from "../utils/tsconfig-utils";
+
+let repo: TempRepo;
+
+beforeEach(() => {
+  repo = new TempRepo();
+  repo.writeFile(
+    "tsconfig.base.json",
+    JSON.stringify({
+      compilerOptions: {
+        baseUrl: ".",
+        paths: { "@/*": ["src/*"], "@plasmic/*": ["src/plasmic/*"] },
+      },
+    })
+  );
+  repo.writeFile(
+    "tsconfig.json",
+    `{
+      // Comments are allowed
+      "extends": "./tsconfig.base.json",
+    }`
+  );
+});
+
+afterEach(() => {
+  repo.destroy();
+});
+
+describe("tsconfig-utils", () => {
+  test("reads, applies and resolves path aliases", () => {
+    const aliases = readPathAliases(repo.resolveFile("."));
+    expect(aliases).toEqual({
+      "@/*": [repo.resolveFile("src/*")],
+      "@plasmic/*": [repo.resolveFile("src/plasmic/*")],
+    });
+    if (!aliases) {
+      return;
+    }
+
+    expect(
+      toAliasedPath(aliases, repo.resolveFile("src/plasmic/PlasmicButton.tsx"))
+    ).toEqual("@plasmic/PlasmicButton.tsx");
+    expect(toAliasedPath(aliases, repo.resolveFile("lib/util.ts"))).toBe(
+      undefined
+    );
+    expect(resolveAliasedPath(aliases, "@plasmic/PlasmicButton")).toEqual(
+      repo.resolveFile("src/plasmic/PlasmicButton")
+    );
+    expect(resolveAliasedPath(aliases, "lodash")).toBe(undefined);
+  });
+
+  test("writes imports from other directories through aliases", () => {
+    const config = {
+      code: { importAliases: true },
+      projects: [
+        {
+          projectId: "projectId",
+          components: [
+            {
+              id: "buttonId",
+              name: "Button",
+              renderModuleFilePath: "plasmic/PlasmicButton.tsx",
+              cssFilePath: "plasmic/PlasmicButton.css",
+              importSpec: { modulePath: "components/Button.tsx" },
+            },
+          ],
+          icons: [],
+          images: [],
+        },
+      ],
+      globalVariants: { variantGroups: [] },
+    } as any;
+    const context = {
+      config,
+      cliArgs: {},
+      absoluteSrcDir: repo.resolveFile("src"),
+      pathAliases: readPathAliases(repo.resolveFile(".")),
+    } as any;
+    const code = `import { PlasmicButton } from "./PlasmicButton"; // plasmic-import: buttonId/render
+import "./PlasmicButton.css"; // plasmic-import: buttonId/css
+`;
+    const replaced = replaceImports(
+      context,
+      code,
+      "components/Button.tsx",
+      mkFixImportContext(config),
+      false
+    );
+    expect(replaced).toContain(
+      `import { PlasmicButton } from "@plasmic/PlasmicButton"; // plasmic-import: buttonId/render`
+    );
+    expect(replaced).toContain(
+      `import "@plasmic/PlasmicButton.css"; // plasmic-import: buttonId/css`
+    );
+  });
+});
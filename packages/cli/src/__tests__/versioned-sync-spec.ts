@@ -133,6 +133,9 @@ describe("versioned-sync", () => {
     expect(plasmicJson.projects.length).toEqual(1);
     expect(plasmicJson.projects[0].components.length).toEqual(2);
     plasmicJson.projects[0].version = "^1.2.3";
+    tmpRepo.writePlasmicJson(plasmicJson);
+    // Not in the range
+    mockApi.addMockProject({ ...mockProject, version: "2.0.0" });
     // Try syncing again and see if things show up
     await expect(sync(opts)).resolves.toBeUndefined();
     const button = mockApi.stringToMockComponent(
@@ -141,6 +144,30 @@ describe("versioned-sync", () => {
     expect(button).toBeTruthy();
     expect(button?.name).toEqual("Button");
     expect(button?.version).toEqual("1.10.1");
+    // The range is kept, while the resolved version is locked
+    expect(tmpRepo.readPlasmicJson().projects[0].version).toEqual("^1.2.3");
+    expect(
+      JSON.parse(tmpRepo.readFile("plasmic.lock")).projects[0].version
+    ).toEqual("1.10.1");
+  });
+
+  test("records the version range given on the command line", async () => {
+    const mockProject = mockApi.getMockProject("projectId1", "1.2.3");
+    mockApi.addMockProject({ ...mockProject, version: "1.3.0" });
+    opts.projects = ["projectId1@~1.2.0"];
+    opts.nonRecursive = true;
+    await expect(sync(opts)).resolves.toBeUndefined();
+    expect(tmpRepo.readPlasmicJson().projects[0].version).toEqual("~1.2.0");
+    expect(
+      JSON.parse(tmpRepo.readFile("plasmic.lock")).projects[0].version
+    ).toEqual("1.2.3");
+  });
+
+  test("rejects invalid version ranges", async () => {
+    opts.projects = ["projectId1@not-a-range"];
+    await expect(sync(opts)).rejects.toThrow(
+      'Invalid version range "not-a-range" for project projectId1.'
+    );
   });
 });
 
@@ -174,3 +201,34 @@ describe("recursive-sync", () => {
     expectProjectAndDepPlasmicJson();
   });
 });
+
+describe("dry-run-sync", () => {
+  test("does not write anything", async () => {
+    opts.projects = ["projectId1"];
+    opts.dryRun = true;
+    await expect(sync(opts)).resolves.toBeUndefined();
+
+    expect(tmpRepo.checkFile("./src/Button.tsx")).toBeFalsy();
+    expect(tmpRepo.checkFile("./plasmic.lock")).toBeFalsy();
+    expect(tmpRepo.readPlasmicJson().projects).toEqual([]);
+  });
+
+  test("does not touch previously synced files", async () => {
+    opts.projects = ["projectId1"];
+    await expect(sync(opts)).resolves.toBeUndefined();
+    const plasmicJson = tmpRepo.readPlasmicJson();
+
+    // Change component version server-side
+    const mockProject = mockApi.getMockProject("projectId1", "1.2.3");
+    mockProject.version = "1.3.4";
+    mockApi.addMockProject(mockProject);
+
+    opts.dryRun = true;
+    await expect(sync(opts)).resolves.toBeUndefined();
+    expect(tmpRepo.readPlasmicJson()).toEqual(plasmicJson);
+    const button = mockApi.stringToMockComponent(
+      tmpRepo.getComponentFileContents("projectId1", "buttonId")
+    );
+    expect(button?.version).toEqual("1.2.3");
+  });
+});
@@ -0,0 +1,97 @@
+import { sync, SyncArgs } from "../actions/sync";
+import { SyncQueue } from "../actions/watch";
+
+jest.mock("../actions/sync", () => ({ sync: jest.fn() }));
+
+const mockSync = sync as jest.MockedFunction<typeof sync>;
+const syncOpts = ({ projects: [] } as any) as SyncArgs;
+
+beforeEach(() => {
+  jest.useFakeTimers("modern");
+  mockSync.mockReset();
+  mockSync.mockResolvedValue(undefined);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+// Advances the clock, and lets the syncs it started settle
+async function advance(ms: number) {
+  jest.advanceTimersByTime(ms);
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+}
+
+function syncedProjects() {
+  return mockSync.mock.calls.map(([opts]) => opts.projects);
+}
+
+describe("SyncQueue", () => {
+  test("waits for updates to settle before syncing", async () => {
+    const queue = new SyncQueue(syncOpts, () => {});
+    queue.schedule("projectId1", 3);
+    await advance(500);
+    queue.schedule("projectId1", 5);
+    queue.schedule("projectId2");
+    await advance(999);
+    expect(mockSync).not.toHaveBeenCalled();
+
+    await advance(1);
+    expect(syncedProjects()).toEqual([["projectId1", "projectId2"]]);
+    expect(queue.pendingProjectIds).toEqual([]);
+  });
+
+  test("syncs updates that arrive during a sync afterwards", async () => {
+    let finishSync = () => {};
+    mockSync.mockImplementationOnce(
+      () => new Promise<void>((resolve) => (finishSync = resolve))
+    );
+    const queue = new SyncQueue(syncOpts, () => {});
+    queue.schedule("projectId1", 3);
+    await advance(1000);
+    expect(queue.syncing).toBe(true);
+
+    queue.schedule("projectId1", 4);
+    await advance(5000);
+    expect(mockSync).toHaveBeenCalledTimes(1);
+
+    finishSync();
+    await advance(0);
+    expect(queue.syncing).toBe(false);
+    expect(queue.pendingProjectIds).toEqual(["projectId1"]);
+    await advance(1000);
+    expect(mockSync).toHaveBeenCalledTimes(2);
+  });
+
+  test("retries failed syncs with a growing delay", async () => {
+    mockSync
+      .mockRejectedValueOnce(new Error("Server unavailable"))
+      .mockRejectedValueOnce(new Error("Server unavailable"));
+    const queue = new SyncQueue(syncOpts, () => {});
+    queue.schedule("projectId1", 3);
+    await advance(1000);
+    expect(mockSync).toHaveBeenCalledTimes(1);
+    expect(queue.health.lastError).toEqual("Server unavailable");
+    expect(queue.pendingProjectIds).toEqual(["projectId1"]);
+
+    await advance(1999);
+    expect(mockSync).toHaveBeenCalledTimes(1);
+    await advance(1);
+    expect(mockSync).toHaveBeenCalledTimes(2);
+
+    await advance(3999);
+    expect(mockSync).toHaveBeenCalledTimes(2);
+    await advance(1);
+    expect(mockSync).toHaveBeenCalledTimes(3);
+    expect(queue.health.lastError).toBeUndefined();
+    expect(queue.health.lastSyncedAt).toBeDefined();
+    expect(queue.pendingProjectIds).toEqual([]);
+
+    // Succeeding resets the backoff
+    queue.schedule("projectId1", 4);
+    await advance(1000);
+    expect(mockSync).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,286 @@
+import L from "lodash";
+import { CommonArgs } from "..";
+import { ChecksumBundle, ProjectBundle } from "../api";
+import { logToStderr } from "../deps";
+import { PlasmicContext } from "../utils/config-utils";
+import { HandledError } from "../utils/error";
+import { generateMetadata, getContext } from "../utils/get-context";
+
+export interface ChangelogArgs extends CommonArgs {
+  project: string;
+  from: string;
+  to: string;
+  format: "markdown" | "json";
+}
+
+export type ChangelogAssetType =
+  | "component"
+  | "icon"
+  | "image"
+  | "globalVariant"
+  | "token";
+
+export interface ChangelogEntry {
+  type: ChangelogAssetType;
+  id: string;
+  name: string;
+  change: "added" | "removed" | "changed";
+  // Set if the asset was renamed
+  previousName?: string;
+}
+
+export interface Changelog {
+  projectId: string;
+  projectName: string;
+  from: string;
+  to: string;
+  changes: ChangelogEntry[];
+  // Whether the project-wide css, like the default styles, changed
+  projectCssChanged: boolean;
+}
+
+const noChecksums: ChecksumBundle = {
+  imageChecksums: [],
+  iconChecksums: [],
+  renderModuleChecksums: [],
+  cssRulesChecksums: [],
+  globalVariantChecksums: [],
+  projectCssChecksum: "",
+};
+
+/**
+ * Prints the components, icons, images, global variants and style tokens that
+ * were added, removed or changed between two versions of a project, as
+ * Markdown or JSON, to stdout.
+ */
+export async function changelog(opts: ChangelogArgs) {
+  // Leave stdout for the changelog, so that it can be piped into a file
+  logToStderr();
+  const context = await getContext(opts);
+  const log = await computeChangelog(context, opts.project, opts.from, opts.to);
+  process.stdout.write(
+    opts.format === "json"
+      ? JSON.stringify(log, undefined, 2) + "\n"
+      : formatChangelogAsMarkdown(log)
+  );
+}
+
+export async function computeChangelog(
+  context: PlasmicContext,
+  projectId: string,
+  from: string,
+  to: string
+): Promise<Changelog> {
+  // Like sync, get the API tokens of the project and its dependencies at
+  // both versions, which fetching the project requires
+  const projectApiToken = context.config.projects.find(
+    (p) => p.projectId === projectId
+  )?.projectApiToken;
+  const resolutions = await Promise.all(
+    [from, to].map((versionRange) =>
+      context.api.resolveSync(
+        [
+          {
+            projectId,
+            versionRange,
+            componentIdOrNames: undefined,
+            projectApiToken,
+          },
+        ],
+        true
+      )
+    )
+  );
+  // The versions that the ranges resolve to
+  const [fromVersion, toVersion] = resolutions.map((resolution, i) => {
+    if (resolution.projects.length === 0) {
+      throw new HandledError(
+        `Project ${projectId} has no version ${[from, to][i]}.`
+      );
+    }
+    return resolution.projects[0].version;
+  });
+  context.api.attachProjectIdsAndTokens(
+    L.uniqBy(
+      L.flatMap(resolutions, (r) => [...r.projects, ...r.dependencies]).map(
+        (p) => ({
+          projectId: p.projectId,
+          projectApiToken: p.projectApiToken,
+        })
+      ),
+      (p) => p.projectId
+    )
+  );
+  const fetchBundle = async (version: string) => {
+    try {
+      return await context.api.projectComponents(
+        projectId,
+        context.config.platform,
+        context.config.code.scheme,
+        [],
+        undefined,
+        version,
+        context.config.images,
+        context.config.style,
+        noChecksums,
+        generateMetadata(context, "command=changelog")
+      );
+    } catch (e) {
+      throw new HandledError(
+        `Cannot fetch version ${version} of project ${projectId}: ${e.message}`
+      );
+    }
+  };
+  const before = await fetchBundle(fromVersion);
+  const after = await fetchBundle(toVersion);
+
+  const tokensOf = (bundle: ProjectBundle) =>
+    bundle.usedTokens.props
+      .filter((token) => token.meta.projectId === projectId)
+      .map((token) => ({ ...token, id: token.meta.id }));
+
+  const changes = [
+    ...compareAssets(
+      "component",
+      before,
+      after,
+      (bundle) => bundle.components,
+      (c) => c.componentName,
+      (c, bundle) =>
+        `${checksumOf(
+          bundle.checksums.renderModuleChecksums,
+          c.id
+        )}/${checksumOf(bundle.checksums.cssRulesChecksums, c.id)}`
+    ),
+    ...compareAssets(
+      "icon",
+      before,
+      after,
+      (bundle) => bundle.iconAssets,
+      (icon) => icon.name,
+      (icon, bundle) => checksumOf(bundle.checksums.iconChecksums, icon.id)
+    ),
+    ...compareAssets(
+      "image",
+      before,
+      after,
+      (bundle) => bundle.imageAssets,
+      (image) => image.name,
+      (image, bundle) => checksumOf(bundle.checksums.imageChecksums, image.id)
+    ),
+    ...compareAssets(
+      "globalVariant",
+      before,
+      after,
+      (bundle) => bundle.globalVariants,
+      (variant) => variant.name,
+      (variant, bundle) =>
+        checksumOf(bundle.checksums.globalVariantChecksums, variant.id)
+    ),
+    ...compareAssets(
+      "token",
+      before,
+      after,
+      tokensOf,
+      (token) => token.name,
+      (token) => `${token.type}:${token.value}`
+    ),
+  ];
+
+  return {
+    projectId,
+    projectName: after.projectConfig.projectName,
+    from: fromVersion,
+    to: toVersion,
+    changes,
+    projectCssChanged:
+      before.checksums.projectCssChecksum !==
+      after.checksums.projectCssChecksum,
+  };
+}
+
+function checksumOf(checksums: Array<[string, string]>, id: string) {
+  return checksums.find(([checksumId]) => checksumId === id)?.[1];
+}
+
+/**
+ * Compares the assets of a type by id. An asset changed if it was renamed or
+ * if its fingerprint, like its checksum, differs.
+ */
+function compareAssets<T extends { id: string }>(
+  type: ChangelogAssetType,
+  before: ProjectBundle,
+  after: ProjectBundle,
+  assets: (bundle: ProjectBundle) => T[],
+  name: (asset: T) => string,
+  fingerprint: (asset: T, bundle: ProjectBundle) => string | undefined
+): ChangelogEntry[] {
+  const beforeById = L.keyBy(assets(before), (a) => a.id);
+  const afterIds = new Set(assets(after).map((a) => a.id));
+  const entries: ChangelogEntry[] = [];
+  for (const asset of assets(after)) {
+    const prev = beforeById[asset.id];
+    if (!prev) {
+      entries.push({ type, id: asset.id, name: name(asset), change: "added" });
+    } else if (
+      name(prev) !== name(asset) ||
+      fingerprint(prev, before) !== fingerprint(asset, after)
+    ) {
+      entries.push({
+        type,
+        id: asset.id,
+        name: name(asset),
+        change: "changed",
+        ...(name(prev) !== name(asset) && { previousName: name(prev) }),
+      });
+    }
+  }
+  for (const asset of assets(before)) {
+    if (!afterIds.has(asset.id)) {
+      entries.push({
+        type,
+        id: asset.id,
+        name: name(asset),
+        change: "removed",
+      });
+    }
+  }
+  return L.sortBy(
+    entries,
+    (e) => ["added", "changed", "removed"].indexOf(e.change),
+    (e) => e.name
+  );
+}
+
+const sectionTitles: [ChangelogAssetType, string][] = [
+  ["component", "Components"],
+  ["icon", "Icons"],
+  ["image", "Images"],
+  ["globalVariant", "Global variants"],
+  ["token", "Tokens"],
+];
+
+export function formatChangelogAsMarkdown(log: Changelog) {
+  const lines = [`# ${log.projectName}: changes from ${log.from} to ${log.to}`];
+  if (log.changes.length === 0 && !log.projectCssChanged) {
+    lines.push("", "No changes.");
+  }
+  for (const [type, title] of sectionTitles) {
+    const entries = log.changes.filter((e) => e.type === type);
+    if (entries.length === 0) {
+      continue;
+    }
+    lines.push("", `## ${title}`, "");
+    for (const entry of entries) {
+      lines.push(
+        `- ${L.upperFirst(entry.change)} **${entry.name}**${
+          entry.previousName ? ` (renamed from ${entry.previousName})` : ""
+        }`
+      );
+    }
+  }
+  if (log.projectCssChanged) {
+    lines.push("", "## Project styles", "", "- Changed");
+  }
+  return lines.join("\n") + "\n";
+}
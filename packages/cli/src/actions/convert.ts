@@ -0,0 +1,203 @@
+import L from "lodash";
+import { CommonArgs } from "..";
+import { ChecksumBundle } from "../api";
+import { logger } from "../deps";
+import {
+  ComponentUpdateSummary,
+  fixAllImportStatements,
+  formatAsLocal,
+  isLocalModulePath,
+  maybeConvertTsxToJsx,
+} from "../utils/code-utils";
+import {
+  findComponentConfig,
+  getOrAddProjectLock,
+  PlasmicContext,
+  updateConfig,
+} from "../utils/config-utils";
+import { HandledError } from "../utils/error";
+import {
+  readFileContent,
+  withBufferedFs,
+  writeFileContent,
+} from "../utils/file-utils";
+import { generateMetadata, getContext } from "../utils/get-context";
+import { makeMergeBaseProvider } from "../utils/merge-base-utils";
+import { transformFile } from "../utils/plugin-utils";
+import {
+  liftOverridesIntoJsx,
+  wrapJsxIntoOverrides,
+} from "../utils/scheme-utils";
+import { syncProjectComponents } from "./sync-components";
+
+export interface ConvertArgs extends CommonArgs {
+  component: string;
+  to: "blackbox" | "direct";
+}
+
+/**
+ * Switches a component between the blackbox and direct code schemes,
+ * rewriting its skeleton module into the new shape. Going to direct, the
+ * overrides passed to the Plasmic component become props in the JSX tree;
+ * going to blackbox, the props added to the JSX tree become overrides. The
+ * component is synced again at its locked version, so that later syncs can
+ * merge the skeleton module.
+ */
+export async function convert(opts: ConvertArgs) {
+  const context = await getContext(opts);
+  const component = findComponentConfig(context, opts.component);
+  if (component.scheme === opts.to) {
+    logger.info(`${component.name} already uses the ${opts.to} scheme.`);
+    return;
+  }
+  const skeletonPath = component.importSpec.modulePath;
+  if (!isLocalModulePath(skeletonPath)) {
+    throw new HandledError(
+      `${component.name} is imported from ${skeletonPath}, so it has no skeleton module to convert.`
+    );
+  }
+  const project = context.config.projects.find(
+    (p) => p.projectId === component.projectId
+  );
+  const projectLock = getOrAddProjectLock(context, component.projectId);
+  if (!project || !projectLock.version) {
+    throw new HandledError(
+      `${component.name} has not been synced; please run plasmic sync first.`
+    );
+  }
+
+  context.api.attachProjectIdsAndTokens(
+    L.flatMap(context.config.projects, ({ projectId, projectApiToken }) =>
+      projectApiToken ? [{ projectId, projectApiToken }] : []
+    )
+  );
+
+  await withBufferedFs(async () => {
+    const edited = readFileContent(context, skeletonPath);
+    const base =
+      opts.to === "blackbox"
+        ? await fetchMergeBase(
+            context,
+            component.projectId,
+            component.id,
+            edited
+          )
+        : undefined;
+
+    const emptyChecksums: ChecksumBundle = {
+      imageChecksums: [],
+      iconChecksums: [],
+      renderModuleChecksums: [],
+      cssRulesChecksums: [],
+      globalVariantChecksums: [],
+      projectCssChecksum: "",
+    };
+    const projectBundle = await context.api.projectComponents(
+      component.projectId,
+      context.config.platform,
+      opts.to,
+      [[component.id, opts.to]],
+      [component.id],
+      projectLock.version,
+      context.config.images,
+      context.config.style,
+      emptyChecksums,
+      generateMetadata(context)
+    );
+    const bundle = projectBundle.components.find((c) => c.id === component.id);
+    if (!bundle) {
+      throw new HandledError(
+        `Could not generate ${component.name} in the ${opts.to} scheme.`
+      );
+    }
+    const tsxRenderModules = new Map([[bundle.id, bundle.renderModule]]);
+    if (context.config.code.lang === "js") {
+      [bundle.renderModuleFileName, bundle.renderModule] = maybeConvertTsxToJsx(
+        bundle.renderModuleFileName,
+        bundle.renderModule
+      );
+      [
+        bundle.skeletonModuleFileName,
+        bundle.skeletonModule,
+      ] = maybeConvertTsxToJsx(
+        bundle.skeletonModuleFileName,
+        bundle.skeletonModule
+      );
+    }
+
+    const converted =
+      opts.to === "direct"
+        ? liftOverridesIntoJsx(edited, bundle.skeletonModule, component.name)
+        : wrapJsxIntoOverrides(
+            edited,
+            bundle.skeletonModule,
+            component.name,
+            base
+          );
+    for (const warning of converted.warnings) {
+      logger.warn(`${skeletonPath}: ${warning}`);
+    }
+
+    logger.info(`Converting ${component.name} to the ${opts.to} scheme`);
+    component.scheme = opts.to;
+    const summary = new Map<string, ComponentUpdateSummary>();
+    // This writes the new render module, updates plasmic.lock and, for the
+    // direct scheme, keeps the new skeleton as the base of later merges.
+    await syncProjectComponents(
+      context,
+      project,
+      projectLock.version,
+      [bundle],
+      true,
+      false,
+      summary,
+      [],
+      projectLock,
+      projectBundle.checksums,
+      new Set(
+        project.components.map((c) => c.id).filter((id) => id !== component.id)
+      ),
+      tsxRenderModules
+    );
+    await writeFileContent(
+      context,
+      skeletonPath,
+      await transformFile(
+        context,
+        "skeletonModule",
+        skeletonPath,
+        formatAsLocal(context, converted.code, skeletonPath)
+      ),
+      { force: true }
+    );
+    await fixAllImportStatements(context, summary);
+    await updateConfig(context, context.config);
+  });
+}
+
+/**
+ * The direct skeleton that `edited` was generated as, going by its
+ * plasmic-managed-jsx revision.
+ */
+async function fetchMergeBase(
+  context: PlasmicContext,
+  projectId: string,
+  componentId: string,
+  edited: string
+) {
+  const m = edited.match(/\/\/\s*plasmic-managed-jsx\/(\d+)/);
+  if (!m) {
+    return undefined;
+  }
+  try {
+    const metadata = await makeMergeBaseProvider(
+      context,
+      componentId,
+      (id, revision) => context.api.projectSyncMetadata(id, revision, true)
+    )(projectId, +m[1]);
+    return metadata.components.find((c) => c.uuid === componentId)?.fileContent;
+  } catch (e) {
+    logger.warn(`Could not fetch the generated version: ${e.message}`);
+    return undefined;
+  }
+}
@@ -0,0 +1,244 @@
+import fs from "fs";
+import http from "http";
+import { AddressInfo } from "net";
+import { Server as SocketIoServer } from "socket.io";
+import path from "upath";
+import { CommonArgs } from "..";
+import { logger } from "../deps";
+import { HandledError } from "../utils/error";
+import { existsUnbuffered, readFileText } from "../utils/file-utils";
+import {
+  MockAccessError,
+  MockComponent,
+  MockCredentials,
+  MockProject,
+  MockProjectStore,
+} from "../utils/mock-projects";
+
+export interface DevServerArgs extends CommonArgs {
+  fixtures?: string;
+  port: number;
+}
+
+/**
+ * Changes to a project, making a new revision of it.
+ */
+export interface MockRevision {
+  // The version to change; defaults to the newest one. A version that
+  // doesn't exist yet is published.
+  version?: string;
+  projectName?: string;
+  components?: MockComponent[];
+  dependencies?: { [projectId: string]: string };
+}
+
+export interface DevServer {
+  url: string;
+  store: MockProjectStore;
+  // Returns the number of the new revision
+  addRevision(projectId: string, revision: MockRevision): number;
+  close(): Promise<void>;
+}
+
+/**
+ * Serves the Plasmic API that the cli and loader use, from projects read
+ * from json files, so that they can be tested end to end without a Plasmic
+ * account. Each fixture file holds a MockProject or an array of them; later
+ * files can add versions of projects in earlier ones.
+ */
+export async function devServer(opts: DevServerArgs) {
+  const server = await startDevServer(opts);
+  logger.info(`Serving the Plasmic API at ${server.url}`);
+  logger.info(
+    `To simulate a new revision of a project, POST its changes to ${server.url}/api/v1/dev/projects/<projectId>/revisions`
+  );
+  // Serves until the process is stopped
+  await new Promise(() => {});
+}
+
+export async function startDevServer(opts: {
+  fixtures?: string;
+  port: number;
+}): Promise<DevServer> {
+  const store = new MockProjectStore();
+  if (opts.fixtures) {
+    loadFixtures(store, opts.fixtures);
+  }
+
+  const addRevision = (projectId: string, revision: MockRevision) => {
+    const versions = store.getVersions(projectId);
+    if (versions.length === 0) {
+      throw new Error(`Project ${projectId} does not exist`);
+    }
+    const base =
+      (revision.version && store.getProject(projectId, revision.version)) ||
+      versions[0];
+    const revisionNum = store.addProject({
+      ...base,
+      ...revision,
+      version: revision.version ?? base.version,
+    });
+    io.to(projectId).emit("update", { projectId, revisionNum });
+    return revisionNum;
+  };
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => {
+      const respond = (status: number, data: unknown) => {
+        res.writeHead(status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(data));
+      };
+      try {
+        const body = chunks.length
+          ? JSON.parse(Buffer.concat(chunks).toString())
+          : {};
+        const credentials: MockCredentials = {
+          user: req.headers["x-plasmic-api-user"] as string | undefined,
+          token: req.headers["x-plasmic-api-token"] as string | undefined,
+          projectIdsAndTokens: body.projectIdsAndTokens ?? [],
+        };
+        const route = `${req.method} ${req.url?.split("?")[0]}`;
+        const result = handleRequest(store, route, body, credentials, {
+          addRevision,
+        });
+        if (result === undefined) {
+          respond(404, {
+            error: { message: `${route} is not served by plasmic dev-server` },
+          });
+        } else {
+          respond(result.status ?? 200, result.data);
+        }
+      } catch (e) {
+        respond(e instanceof MockAccessError ? 403 : 400, {
+          error: { message: e.message },
+        });
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(opts.port, "localhost", () => resolve());
+  });
+
+  const io = new SocketIoServer(server, { path: "/api/v1/socket" });
+  io.on("connection", (socket) => {
+    socket.on("subscribe", (data: { projectIds: string[] }) => {
+      data.projectIds.forEach((projectId) => socket.join(projectId));
+    });
+    socket.emit("initServerInfo", {});
+  });
+
+  return {
+    url: `http://localhost:${(server.address() as AddressInfo).port}`,
+    store,
+    addRevision,
+    close: async () => {
+      io.close();
+      await new Promise((resolve) => server.close(resolve));
+    },
+  };
+}
+
+function loadFixtures(store: MockProjectStore, dir: string) {
+  if (!existsUnbuffered(dir)) {
+    throw new HandledError(`Fixtures directory ${dir} does not exist.`);
+  }
+  const files = fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith(".json"))
+    .sort();
+  for (const file of files) {
+    const filePath = path.join(dir, file);
+    let projects: Partial<MockProject>[];
+    try {
+      const json = JSON.parse(readFileText(filePath));
+      projects = Array.isArray(json) ? json : [json];
+    } catch (e) {
+      throw new HandledError(`Cannot read ${filePath}: ${e.message}`);
+    }
+    for (const project of projects) {
+      if (!project.projectId || !project.version || !project.components) {
+        throw new HandledError(
+          `${filePath}: each project needs a projectId, a version and components.`
+        );
+      }
+      store.addProject({
+        projectId: project.projectId,
+        projectApiToken: project.projectApiToken ?? "",
+        version: project.version,
+        projectName: project.projectName ?? project.projectId,
+        components: project.components,
+        dependencies: project.dependencies ?? {},
+      });
+    }
+  }
+}
+
+/**
+ * Answers a request to the API. Returns undefined if the route doesn't exist.
+ */
+function handleRequest(
+  store: MockProjectStore,
+  route: string,
+  body: any,
+  credentials: MockCredentials,
+  server: Pick<DevServer, "addRevision">
+): { status?: number; data: unknown } | undefined {
+  if (route === "GET /api/v1/auth/self") {
+    if (!credentials.user || !credentials.token) {
+      return { status: 401, data: { error: { message: "Not logged in" } } };
+    }
+    return { data: { user: { email: credentials.user } } };
+  }
+  if (route === "POST /api/v1/code/style-config") {
+    return { data: store.genStyleConfig() };
+  }
+  if (route === "POST /api/v1/code/required-packages") {
+    return { data: store.requiredPackages() };
+  }
+  if (route === "POST /api/v1/code/resolve-sync") {
+    return {
+      data: store.resolveSync(credentials, body.projects, body.recursive),
+    };
+  }
+
+  const m = route.match(
+    /^POST \/api\/v1\/(dev\/)?projects\/([^/]+)\/(code\/[a-z-]+|revisions)$/
+  );
+  if (!m) {
+    return undefined;
+  }
+  const [, dev, projectId, endpoint] = m;
+  if (dev) {
+    return endpoint === "revisions"
+      ? { data: { revision: server.addRevision(projectId, body) } }
+      : undefined;
+  }
+  switch (endpoint) {
+    case "code/components":
+      return {
+        data: store.projectComponents(
+          credentials,
+          projectId,
+          body.componentIdOrNames,
+          body.version
+        ),
+      };
+    case "code/tokens":
+      return { data: store.projectStyleTokens(projectId) };
+    case "code/icons":
+      return { data: store.projectIcons(projectId, body.versionRange) };
+    case "code/project-sync-metadata":
+      // PlasmicApi expects the metadata as a json string
+      return {
+        data: JSON.stringify(
+          store.projectSyncMetadata(projectId, body.revision)
+        ),
+      };
+    default:
+      return undefined;
+  }
+}
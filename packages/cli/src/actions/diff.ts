@@ -0,0 +1,283 @@
+import chalk from "chalk";
+import { createTwoFilesPatch } from "diff";
+import L from "lodash";
+import { CommonArgs } from "..";
+import { ChecksumBundle } from "../api";
+import { logger } from "../deps";
+import {
+  ComponentUpdateSummary,
+  fixAllImportStatements,
+  formatAsLocal,
+  maybeConvertTsxToJsx,
+} from "../utils/code-utils";
+import { FileLock, PlasmicContext, ProjectConfig } from "../utils/config-utils";
+import { HandledError } from "../utils/error";
+import {
+  fileExists,
+  readFileContent,
+  withBufferedFs,
+  writeFileContent,
+} from "../utils/file-utils";
+import { generateMetadata, getContext } from "../utils/get-context";
+import { transformFile } from "../utils/plugin-utils";
+
+export interface DiffArgs extends CommonArgs {
+  projects: readonly string[];
+}
+
+export interface GeneratedFile {
+  componentId: string;
+  // path relative to srcDir
+  path: string;
+  // false for skeleton modules, which are meant to be edited
+  managed: boolean;
+  // what's on disk, or undefined if missing
+  localContent: string | undefined;
+  generatedContent: string;
+  // label of the version the generated content comes from
+  versionLabel: string;
+}
+
+// We want every file, regardless of what was synced before.
+const noChecksums: ChecksumBundle = {
+  imageChecksums: [],
+  iconChecksums: [],
+  renderModuleChecksums: [],
+  cssRulesChecksums: [],
+  globalVariantChecksums: [],
+  projectCssChecksum: "",
+};
+
+/**
+ * Looks up the given synced projects, or all of them if none are given, and
+ * attaches their project API tokens.
+ */
+export function getSyncedProjects(
+  context: PlasmicContext,
+  projectIds: readonly string[]
+) {
+  const projects = projectIds.length
+    ? projectIds.map((projectId) => {
+        const project = context.config.projects.find(
+          (p) => p.projectId === projectId
+        );
+        if (!project) {
+          throw new HandledError(
+            `Project ${projectId} has not been synced, so there is nothing to compare it to.`
+          );
+        }
+        return project;
+      })
+    : context.config.projects;
+  if (projects.length === 0) {
+    throw new HandledError("No projects have been synced yet.");
+  }
+
+  context.api.attachProjectIdsAndTokens(
+    context.config.projects.flatMap((p) =>
+      p.projectApiToken
+        ? [{ projectId: p.projectId, projectApiToken: p.projectApiToken }]
+        : []
+    )
+  );
+  return projects;
+}
+
+/**
+ * Generates the render modules, css files and skeleton modules of the
+ * projects' components at the versions pinned in plasmic.lock, just like
+ * sync would. The generated files are written over the local ones, so this
+ * must run within a dry-run withBufferedFs.
+ *
+ * Also returns the ids of components for which Plasmic now generates
+ * different code than when they were last synced.
+ */
+export async function generateLockedFiles(
+  context: PlasmicContext,
+  projects: ProjectConfig[],
+  metadata: ReturnType<typeof generateMetadata>
+) {
+  const files: Omit<GeneratedFile, "generatedContent">[] = [];
+  const regeneratedComponentIds: string[] = [];
+  const summary = new Map<string, ComponentUpdateSummary>();
+  for (const project of projects) {
+    const projectLock = context.lock.projects.find(
+      (p) => p.projectId === project.projectId
+    );
+    if (!projectLock) {
+      logger.warn(
+        `Skipping ${project.projectName}, which is missing from plasmic.lock.`
+      );
+      continue;
+    }
+    const projectBundle = await context.api.projectComponents(
+      project.projectId,
+      context.config.platform,
+      context.config.code.scheme,
+      project.components.map((c) => [c.id, c.scheme]),
+      project.components.map((c) => c.id),
+      projectLock.version,
+      context.config.images,
+      context.config.style,
+      noChecksums,
+      metadata
+    );
+    regeneratedComponentIds.push(
+      ...findRegeneratedComponents(
+        projectLock.fileLocks,
+        projectBundle.checksums
+      )
+    );
+
+    const versionLabel = `${project.projectName}@${projectLock.version}`;
+    for (const bundle of projectBundle.components) {
+      const compConfig = project.components.find((c) => c.id === bundle.id);
+      if (!compConfig) {
+        continue;
+      }
+      let { renderModule, skeletonModule } = bundle;
+      if (context.config.code.lang === "js") {
+        renderModule = maybeConvertTsxToJsx(
+          bundle.renderModuleFileName,
+          renderModule
+        )[1];
+        skeletonModule = maybeConvertTsxToJsx(
+          bundle.skeletonModuleFileName,
+          skeletonModule
+        )[1];
+      }
+      // Write the generated files in place of the local ones, so that
+      // their imports get fixed, they get formatted and the plugins
+      // transform them just like sync does. None of this is flushed to
+      // disk.
+      for (const [type, path, content, managed] of [
+        ["renderModule", compConfig.renderModuleFilePath, renderModule, true],
+        ["cssRules", compConfig.cssFilePath, bundle.cssRules, true],
+        [
+          "skeletonModule",
+          compConfig.importSpec.modulePath,
+          skeletonModule,
+          false,
+        ],
+      ] as const) {
+        files.push({
+          componentId: compConfig.id,
+          path,
+          managed,
+          localContent: fileExists(context, path)
+            ? readFileContent(context, path)
+            : undefined,
+          versionLabel,
+        });
+        await writeFileContent(
+          context,
+          path,
+          await transformFile(
+            context,
+            type,
+            path,
+            formatAsLocal(context, content, path)
+          ),
+          { force: true }
+        );
+      }
+      summary.set(compConfig.id, { skeletonModuleModified: true });
+    }
+  }
+  await fixAllImportStatements(context, summary);
+
+  return {
+    files: files.map(
+      (file): GeneratedFile => ({
+        ...file,
+        generatedContent: readFileContent(context, file.path),
+      })
+    ),
+    regeneratedComponentIds,
+  };
+}
+
+/**
+ * Shows how the local render modules, css files and skeleton modules differ
+ * from the code Plasmic generates for the version pinned in plasmic.lock,
+ * without writing anything.
+ */
+export async function diff(opts: DiffArgs) {
+  const context = await getContext(opts, { keepMissingFiles: true });
+  const projects = getSyncedProjects(context, opts.projects);
+
+  await withBufferedFs(
+    async () => {
+      const { files, regeneratedComponentIds } = await generateLockedFiles(
+        context,
+        projects,
+        generateMetadata(context, "command=diff")
+      );
+      const regeneratedNames = L.flatMap(projects, (p) => p.components)
+        .filter((c) => regeneratedComponentIds.includes(c.id))
+        .map((c) => c.name);
+      if (regeneratedNames.length > 0) {
+        logger.warn(
+          `Plasmic now generates different code for ${regeneratedNames.join(
+            ", "
+          )} than when last synced, so their diffs also include changes from Plasmic.`
+        );
+      }
+
+      let changedFiles = 0;
+      for (const file of files) {
+        if (file.generatedContent === file.localContent) {
+          continue;
+        }
+        changedFiles++;
+        printPatch(
+          createTwoFilesPatch(
+            `a/${file.path}`,
+            `b/${file.path}`,
+            file.generatedContent,
+            file.localContent ?? "",
+            file.versionLabel,
+            file.localContent === undefined ? "missing" : "local"
+          )
+        );
+      }
+      logger.info(
+        changedFiles === 0
+          ? "Local files match the generated code."
+          : `${changedFiles} file(s) differ from the generated code. Lines starting with + are local changes.`
+      );
+    },
+    { dryRun: true }
+  );
+}
+
+function findRegeneratedComponents(
+  fileLocks: FileLock[],
+  checksums: ChecksumBundle
+) {
+  const syncedChecksums = new Map(
+    fileLocks.map((fl) => [`${fl.type}/${fl.assetId}`, fl.checksum])
+  );
+  return L.uniq([
+    ...checksums.renderModuleChecksums
+      .filter(([id, sum]) => syncedChecksums.get(`renderModule/${id}`) !== sum)
+      .map(([id]) => id),
+    ...checksums.cssRulesChecksums
+      .filter(([id, sum]) => syncedChecksums.get(`cssRules/${id}`) !== sum)
+      .map(([id]) => id),
+  ]);
+}
+
+function printPatch(patch: string) {
+  for (const line of patch.split("\n")) {
+    process.stdout.write(
+      (line.startsWith("+")
+        ? chalk.green(line)
+        : line.startsWith("-")
+        ? chalk.red(line)
+        : line.startsWith("@@")
+        ? chalk.cyan(line)
+        : line) + "\n"
+    );
+  }
+}
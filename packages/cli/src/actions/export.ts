@@ -0,0 +1,141 @@
+import L from "lodash";
+import path from "upath";
+import { CommonArgs } from "..";
+import { ChecksumBundle } from "../api";
+import { logger } from "../deps";
+import {
+  DEFAULT_ARCHIVE_FILE_NAME,
+  SyncArchive,
+  writeArchive,
+} from "../utils/archive-utils";
+import { HandledError } from "../utils/error";
+import { fileExists, makeFilePath, readFileText } from "../utils/file-utils";
+import { generateMetadata, getContext } from "../utils/get-context";
+import { getSyncedProjects } from "./diff";
+
+export interface ExportArgs extends CommonArgs {
+  output?: string;
+  projects: readonly string[];
+}
+
+const noChecksums: ChecksumBundle = {
+  imageChecksums: [],
+  iconChecksums: [],
+  renderModuleChecksums: [],
+  cssRulesChecksums: [],
+  globalVariantChecksums: [],
+  projectCssChecksum: "",
+};
+
+/**
+ * Writes an archive of the synced projects at the versions pinned in
+ * plasmic.lock, with their dependencies, so that `plasmic sync --from-archive`
+ * can sync them without network access.
+ */
+export async function exportArchive(opts: ExportArgs) {
+  const context = await getContext(opts);
+  const projects = getSyncedProjects(context, opts.projects);
+
+  const resolution = await context.api.resolveSync(
+    projects.map((p) => ({
+      projectId: p.projectId,
+      versionRange:
+        context.lock.projects.find((l) => l.projectId === p.projectId)
+          ?.version ?? p.version,
+      componentIdOrNames: undefined,
+      projectApiToken: p.projectApiToken,
+    })),
+    true
+  );
+  if (resolution.conflicts.length > 0) {
+    throw new HandledError(
+      `Cannot export conflicting versions of ${resolution.conflicts
+        .map((c) => c.projectName)
+        .join(", ")}. Please sync first.`
+    );
+  }
+  const resolved = L.uniqBy(
+    [...resolution.projects, ...resolution.dependencies],
+    (p) => p.projectId
+  );
+  context.api.attachProjectIdsAndTokens(
+    resolved.map((p) => L.pick(p, "projectId", "projectApiToken"))
+  );
+
+  const bundles: SyncArchive["bundles"] = [];
+  for (const { projectId, version } of resolved) {
+    const existingProject = context.config.projects.find(
+      (p) => p.projectId === projectId
+    );
+    const bundle = await context.api.projectComponents(
+      projectId,
+      context.config.platform,
+      context.config.code.scheme,
+      (existingProject?.components ?? []).map((c) => [c.id, c.scheme]),
+      undefined,
+      version,
+      context.config.images,
+      context.config.style,
+      noChecksums,
+      generateMetadata(context, "command=export")
+    );
+    bundles.push({ projectId, version, bundle });
+  }
+
+  // Merging the edited files of direct-scheme components needs the code they
+  // were generated from, identified by the revision in the file
+  const syncMetadata: SyncArchive["syncMetadata"] = [];
+  for (const project of projects) {
+    for (const component of project.components) {
+      const modulePath = component.importSpec.modulePath;
+      if (component.scheme !== "direct" || !fileExists(context, modulePath)) {
+        continue;
+      }
+      const match = readFileText(makeFilePath(context, modulePath)).match(
+        /plasmic-managed-jsx\/(\d+)/
+      );
+      const revision = match ? +match[1] : undefined;
+      if (
+        revision === undefined ||
+        syncMetadata.some(
+          (s) => s.projectId === project.projectId && s.revision === revision
+        )
+      ) {
+        continue;
+      }
+      try {
+        const metadata = await context.api.projectSyncMetadata(
+          project.projectId,
+          revision,
+          true
+        );
+        syncMetadata.push({
+          projectId: project.projectId,
+          revision,
+          json: JSON.stringify(metadata),
+        });
+      } catch (e) {
+        logger.warn(
+          `Cannot fetch the merge base of ${modulePath}, which syncing from the archive may need: ${e.message}`
+        );
+      }
+    }
+  }
+
+  const archive: SyncArchive = {
+    formatVersion: 1,
+    createdAt: new Date().toISOString(),
+    resolution,
+    bundles,
+    styleConfig: await context.api.genStyleConfig(context.config.style),
+    requiredPackages: await context.api.requiredPackages(),
+    syncMetadata,
+  };
+  const output = path.resolve(opts.output ?? DEFAULT_ARCHIVE_FILE_NAME);
+  writeArchive(output, archive);
+  logger.info(
+    `Exported ${resolved
+      .map((p) => `${p.projectName}@${p.version}`)
+      .join(", ")} to ${path.relative(process.cwd(), output)}`
+  );
+}
@@ -1,5 +1,4 @@
 import chalk from "chalk";
-import inquirer from "inquirer";
 import L from "lodash";
 import path from "upath";
 import { CommonArgs } from "..";
@@ -28,6 +27,7 @@ import {
   getCliVersion,
   installUpgrade,
 } from "../utils/npm-utils";
+import { getPromptHandler } from "../utils/prompts";
 import { confirmWithUser } from "../utils/user-utils";
 
 export interface InitArgs extends CommonArgs {
@@ -119,13 +119,22 @@ type DefaultDeriver = {
 /**
  * A simpler subset of the DistinctQuestion interface that we actually use.
  */
-interface SimpleQuestion {
+interface SimpleQuestion<T extends string = string> {
   name: string;
   message: string;
   type?: "list";
-  choices?: () => { name: string; value: string }[];
+  choices?: () => { name: string; value: T }[];
 }
 
+// The answers that are typed in, and the ones that are chosen from a list
+type InputAnswerName =
+  | "srcDir"
+  | "plasmicDir"
+  | "pagesDir"
+  | "imagesPublicDir"
+  | "imagesPublicUrlPrefix";
+type ChoiceAnswerName = "codeLang" | "styleScheme" | "imagesScheme";
+
 /**
  * Pretty-print the question along with the default answer, as if that was the choice
  * being made. Don't actually interactively prompt for a response.
@@ -268,8 +277,12 @@ async function deriveInitAnswers(opts: Partial<InitArgs>) {
     simulatePrompt(useExpressQuestion, "yes", true);
     return answers;
   } else {
-    const useExpress = await inquirer.prompt([useExpressQuestion]);
-    if (useExpress.continue === "yes") {
+    const useExpress = await getPromptHandler().choose({
+      message: useExpressQuestion.message,
+      choices: ensure(useExpressQuestion.choices)(),
+      defaultAnswer: "yes",
+    });
+    if (useExpress === "yes") {
       return answers;
     }
   }
@@ -279,24 +292,45 @@ async function deriveInitAnswers(opts: Partial<InitArgs>) {
    * being made. This is for displaying the default choices in the express setup.
    */
   async function performAsks(express: boolean) {
-    // Proceed with platform-specific prompts
-    async function maybePrompt(question: SimpleQuestion) {
-      const name = ensure(question.name) as keyof InitArgs;
-      const message = ensure(question.message) as string;
+    // Whether to ask for the answer; otherwise it's shown or skipped
+    function shouldAsk(question: SimpleQuestion, name: keyof InitArgs) {
       if (opts[name]) {
-        logger.info(message + answers[name] + "(specified in CLI arg)");
+        logger.info(
+          question.message + answers[name] + "(specified in CLI arg)"
+        );
       } else if (express) {
-        const defaultAnswer = answers[name];
-        simulatePrompt(question, defaultAnswer);
+        simulatePrompt(question, answers[name]);
       } else if (!opts.yes && !deriver.alwaysDerived.includes(name)) {
-        const ans = await inquirer.prompt({
-          ...question,
-          default: answers[name],
-        });
-        // Not sure why TS complains here without this cast.
-        (answers as any)[name] = ans[name];
+        return true;
       }
       // Other questions are silently skipped
+      return false;
+    }
+
+    // Proceed with platform-specific prompts
+    async function maybePrompt(
+      question: SimpleQuestion & { name: InputAnswerName }
+    ) {
+      const { name, message } = question;
+      if (shouldAsk(question, name)) {
+        answers[name] = await getPromptHandler().input({
+          message,
+          defaultAnswer: answers[name],
+        });
+      }
+    }
+
+    async function maybeChoose<K extends ChoiceAnswerName>(
+      question: SimpleQuestion<InitArgs[K]> & { name: K }
+    ) {
+      const { name, message } = question;
+      if (shouldAsk(question, name)) {
+        answers[name] = await getPromptHandler().choose({
+          message,
+          choices: ensure(question.choices)(),
+          defaultAnswer: answers[name],
+        });
+      }
     }
 
     await maybePrompt({
@@ -320,7 +354,7 @@ async function deriveInitAnswers(opts: Partial<InitArgs>) {
       });
     }
 
-    await maybePrompt({
+    await maybeChoose({
       name: "codeLang",
       message: `${getInitArgsQuestion("codeLang")}\n`,
       type: "list",
@@ -338,7 +372,7 @@ async function deriveInitAnswers(opts: Partial<InitArgs>) {
       ],
     });
 
-    await maybePrompt({
+    await maybeChoose({
       name: "styleScheme",
       message: `${getInitArgsQuestion("styleScheme")}\n`,
       type: "list",
@@ -354,7 +388,7 @@ async function deriveInitAnswers(opts: Partial<InitArgs>) {
       ],
     });
 
-    await maybePrompt({
+    await maybeChoose({
       name: "imagesScheme",
       message: `${getInitArgsQuestion("imagesScheme")}\n`,
       type: "list",
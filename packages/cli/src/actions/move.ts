@@ -0,0 +1,222 @@
+import glob from "glob";
+import path from "upath";
+import { CommonArgs } from "..";
+import { logger } from "../deps";
+import {
+  isLocalModulePath,
+  rewriteModuleSpecifiers,
+} from "../utils/code-utils";
+import {
+  findComponentConfig,
+  PlasmicContext,
+  updateConfig,
+} from "../utils/config-utils";
+import { HandledError } from "../utils/error";
+import {
+  deleteFileBuffered,
+  existsBuffered,
+  fileExists,
+  makeFilePath,
+  readFileText,
+  stripExtension,
+  withBufferedFs,
+  writeFileText,
+} from "../utils/file-utils";
+import { getContext } from "../utils/get-context";
+import { resolveAliasedPath, toAliasedPath } from "../utils/tsconfig-utils";
+import { isStoryEdited, lockStory, storyFilePath } from "./sync-stories";
+
+export interface MoveArgs extends CommonArgs {
+  component: string;
+  newPath: string;
+}
+
+// Extensions that may be left out of an import specifier
+const SCRIPT_EXTENSIONS = [".tsx", ".ts", ".jsx", ".js"];
+
+/**
+ * Moves the skeleton module, render module and css file of a component, and
+ * rewrites every import of them in the code base, including in files that
+ * are not managed by Plasmic.
+ *
+ * `newPath` is relative to srcDir. It is either the new path of the
+ * skeleton module, or a directory to move the component's files into. The
+ * render module and css file are moved into the skeleton module's new
+ * directory.
+ */
+export async function move(opts: MoveArgs) {
+  const context = await getContext(opts, { keepMissingFiles: true });
+  const component = findComponentConfig(context, opts.component);
+
+  const skeletonPath = component.importSpec.modulePath;
+  const hasSkeletonFile = isLocalModulePath(skeletonPath);
+  const newPathIsFile = !!path.extname(opts.newPath);
+  if (newPathIsFile && !hasSkeletonFile) {
+    throw new HandledError(
+      `${component.name} is imported from ${skeletonPath}, so it can only be moved to a directory.`
+    );
+  }
+  if (
+    newPathIsFile &&
+    path.extname(opts.newPath) !== path.extname(skeletonPath)
+  ) {
+    throw new HandledError(
+      `Cannot change the extension of ${skeletonPath} when moving it.`
+    );
+  }
+  const newSkeletonPath = newPathIsFile
+    ? path.normalize(opts.newPath)
+    : path.join(opts.newPath, path.basename(skeletonPath));
+  const newDir = path.dirname(newSkeletonPath);
+  const newRenderModulePath = path.join(
+    newDir,
+    path.basename(component.renderModuleFilePath)
+  );
+  const newCssPath = path.join(newDir, path.basename(component.cssFilePath));
+  // The story, if there is one, stays next to the skeleton module
+  const storyPath = storyFilePath(context, component);
+  const newStoryPath = storyFilePath(context, {
+    ...component,
+    importSpec: { ...component.importSpec, modulePath: newSkeletonPath },
+  });
+  const storyFile =
+    storyPath && fileExists(context, storyPath)
+      ? makeFilePath(context, storyPath)
+      : undefined;
+
+  // Absolute old path => absolute new path
+  const moves = new Map<string, string>();
+  for (const [oldPath, newPath] of [
+    ...(hasSkeletonFile ? [[skeletonPath, newSkeletonPath]] : []),
+    [component.renderModuleFilePath, newRenderModulePath],
+    [component.cssFilePath, newCssPath],
+    ...(storyPath && newStoryPath && storyFile
+      ? [[storyPath, newStoryPath]]
+      : []),
+  ]) {
+    const from = makeFilePath(context, oldPath);
+    const to = makeFilePath(context, newPath);
+    if (from === to) {
+      continue;
+    }
+    if (!existsBuffered(from)) {
+      throw new HandledError(
+        `Cannot find ${oldPath}; please run plasmic sync first.`
+      );
+    }
+    if (existsBuffered(to)) {
+      throw new HandledError(`Cannot move ${oldPath}; ${newPath} exists.`);
+    }
+    moves.set(from, to);
+  }
+  if (moves.size === 0) {
+    logger.info(`${component.name} is already there.`);
+    return;
+  }
+
+  // Unedited stories keep being regenerated after the move
+  const storyEdited =
+    !storyFile || isStoryEdited(context, component, readFileText(storyFile));
+  await withBufferedFs(async () => {
+    const scripts = new Set(
+      glob.sync("**/*.{js,jsx,ts,tsx,mjs,cjs}", {
+        cwd: context.rootDir,
+        absolute: true,
+        nodir: true,
+        // Skip dependencies and build output, which imports the
+        // compiled modules rather than the sources
+        ignore: [
+          "**/node_modules/**",
+          "**/dist/**",
+          "**/build/**",
+          "**/.next/**",
+          "**/.plasmic/**",
+        ],
+      })
+    );
+    for (const file of new Set([...scripts, ...moves.keys()])) {
+      const newFile = moves.get(file) ?? file;
+      const content = readFileText(file);
+      let rewritten = content;
+      if (scripts.has(file)) {
+        try {
+          rewritten = rewriteModuleSpecifiers(file, content, (specifier) =>
+            rewriteSpecifier(context, specifier, file, newFile, moves)
+          );
+        } catch (e) {
+          logger.warn(
+            `Could not update the imports in ${file}, which failed to parse: ${e.message}`
+          );
+        }
+      }
+      if (newFile !== file) {
+        logger.info(
+          `Moving ${path.relative(context.rootDir, file)} to ${path.relative(
+            context.rootDir,
+            newFile
+          )}`
+        );
+        writeFileText(newFile, rewritten);
+        deleteFileBuffered(file);
+        if (file === storyFile && !storyEdited) {
+          lockStory(context, component, rewritten);
+        }
+      } else if (rewritten !== content) {
+        logger.info(
+          `Updating imports in ${path.relative(context.rootDir, file)}`
+        );
+        writeFileText(file, rewritten);
+      }
+    }
+
+    component.renderModuleFilePath = newRenderModulePath;
+    component.cssFilePath = newCssPath;
+    if (hasSkeletonFile) {
+      component.importSpec.modulePath = newSkeletonPath;
+    }
+    await updateConfig(context, context.config);
+  });
+}
+
+/**
+ * Returns the specifier to use in the file moved from `fromFile` to
+ * `newFromFile` for what used to be imported as `specifier`, or undefined
+ * if it doesn't need to change. Specifiers that go through a path alias
+ * keep doing so.
+ */
+function rewriteSpecifier(
+  context: PlasmicContext,
+  specifier: string,
+  fromFile: string,
+  newFromFile: string,
+  moves: Map<string, string>
+) {
+  const aliased = !specifier.startsWith(".");
+  const target = aliased
+    ? context.pathAliases && resolveAliasedPath(context.pathAliases, specifier)
+    : path.join(path.dirname(fromFile), specifier);
+  if (!target) {
+    return undefined;
+  }
+  const movedTarget = [
+    target,
+    ...SCRIPT_EXTENSIONS.map((ext) => target + ext),
+  ].find((candidate) => moves.has(candidate));
+  if (!movedTarget && (aliased || fromFile === newFromFile)) {
+    return undefined;
+  }
+  let newTarget = movedTarget ? (moves.get(movedTarget) as string) : target;
+  if (movedTarget && movedTarget !== target) {
+    // The specifier left out the extension
+    newTarget = stripExtension(newTarget);
+  }
+  const newAliased =
+    aliased && context.pathAliases
+      ? toAliasedPath(context.pathAliases, newTarget)
+      : undefined;
+  if (newAliased) {
+    return newAliased;
+  }
+  const result = path.relative(path.dirname(newFromFile), newTarget);
+  return result.startsWith(".") ? result : `./${result}`;
+}
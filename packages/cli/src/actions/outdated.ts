@@ -0,0 +1,93 @@
+import chalk from "chalk";
+import { CommonArgs } from "..";
+import { logger } from "../deps";
+import { ProjectConfig } from "../utils/config-utils";
+import { getContext } from "../utils/get-context";
+import * as semver from "../utils/semver";
+import { getSyncedProjects } from "./diff";
+
+export interface OutdatedArgs extends CommonArgs {
+  projects: readonly string[];
+}
+
+/**
+ * Lists the synced projects, including the dependencies synced along with
+ * them, for which a newer version has been published. Like `npm outdated`,
+ * "wanted" is the newest version matching the range in plasmic.json, and
+ * "latest" is the newest published version.
+ */
+export async function outdated(opts: OutdatedArgs) {
+  const context = await getContext(opts, { keepMissingFiles: true });
+  const projects = getSyncedProjects(context, opts.projects);
+
+  const resolveVersions = async (
+    versionRange: (project: ProjectConfig) => string
+  ) => {
+    const resolution = await context.api.resolveSync(
+      projects.map((p) => ({
+        projectId: p.projectId,
+        versionRange: versionRange(p),
+        componentIdOrNames: undefined,
+        projectApiToken: p.projectApiToken,
+      }))
+    );
+    return new Map(resolution.projects.map((p) => [p.projectId, p.version]));
+  };
+  const wantedVersions = await resolveVersions((p) => p.version);
+  const latestVersions = await resolveVersions(() => ">=0.0.0");
+
+  const rows: string[][] = [];
+  for (const project of projects) {
+    const current = context.lock.projects.find(
+      (p) => p.projectId === project.projectId
+    )?.version;
+    const wanted = wantedVersions.get(project.projectId);
+    const latest = latestVersions.get(project.projectId);
+    const isNewer = (version?: string) =>
+      !!version && (!current || semver.gt(version, current));
+    if (!isNewer(wanted) && !isNewer(latest)) {
+      continue;
+    }
+    const dependents = context.lock.projects
+      .filter((p) => p.dependencies[project.projectId])
+      .map(
+        (p) =>
+          context.config.projects.find((c) => c.projectId === p.projectId)
+            ?.projectName ?? p.projectId
+      );
+    const color = isNewer(wanted) ? chalk.red : chalk.yellow;
+    rows.push([
+      color(project.projectName),
+      current || "missing",
+      wanted ?? "none",
+      latest ?? "none",
+      project.version,
+      dependents.join(", "),
+    ]);
+  }
+
+  if (rows.length === 0) {
+    logger.info("All projects are up to date.");
+    return;
+  }
+  logTable(
+    ["Project", "Current", "Wanted", "Latest", "Range", "Depended by"],
+    rows
+  );
+}
+
+function logTable(header: string[], rows: string[][]) {
+  // chalk colors don't take up any columns
+  // eslint-disable-next-line no-control-regex
+  const width = (cell: string) => cell.replace(/\u001b\[\d+m/g, "").length;
+  const widths = header.map((h, i) =>
+    Math.max(width(h), ...rows.map((row) => width(row[i])))
+  );
+  const format = (row: string[]) =>
+    row
+      .map((cell, i) => cell + " ".repeat(widths[i] - width(cell)))
+      .join("  ")
+      .trimEnd();
+  logger.info(chalk.underline(format(header)));
+  rows.forEach((row) => logger.info(format(row)));
+}
@@ -0,0 +1,158 @@
+import L from "lodash";
+import { CommonArgs } from "..";
+import { logger } from "../deps";
+import { fixAllImportStatements, isLocalModulePath } from "../utils/code-utils";
+import {
+  PlasmicContext,
+  ProjectConfig,
+  updateConfig,
+} from "../utils/config-utils";
+import { HandledError } from "../utils/error";
+import {
+  defaultBarrelPath,
+  deleteFile,
+  fileExists,
+  withBufferedFs,
+} from "../utils/file-utils";
+import { getContext } from "../utils/get-context";
+import { deleteMergeBases } from "../utils/merge-base-utils";
+import { confirmWithUser } from "../utils/user-utils";
+import { storyFilePath } from "./sync-stories";
+import { removeStyleTokens } from "./sync-styles";
+
+export interface RemoveArgs extends CommonArgs {
+  projects: readonly string[];
+}
+
+/**
+ * Removes synced projects: deletes their generated files and stored merge
+ * bases, drops them from plasmic.json and plasmic.lock, and removes their
+ * style tokens. Refuses to remove a project that another remaining project
+ * depends on.
+ */
+export async function remove(opts: RemoveArgs) {
+  if (opts.projects.length === 0) {
+    throw new HandledError(
+      "Don't know which projects to remove; please specify via --projects"
+    );
+  }
+  const context = await getContext(opts, { keepMissingFiles: true });
+  const projectIds = L.uniq(opts.projects);
+  const projects = projectIds.map((projectId) => {
+    const project = context.config.projects.find(
+      (p) => p.projectId === projectId
+    );
+    if (!project) {
+      throw new HandledError(`Project ${projectId} has not been synced.`);
+    }
+    return project;
+  });
+
+  const remainingLocks = context.lock.projects.filter(
+    (p) => !projectIds.includes(p.projectId)
+  );
+  const removedDependencyIds = L.uniq(
+    context.lock.projects
+      .filter((p) => projectIds.includes(p.projectId))
+      .flatMap((p) => Object.keys(p.dependencies))
+  );
+  for (const project of projects) {
+    const dependents = remainingLocks.filter(
+      (p) => project.projectId in p.dependencies
+    );
+    if (dependents.length > 0) {
+      throw new HandledError(
+        `Cannot remove ${projectLabel(
+          context,
+          project.projectId
+        )}, because ${dependents
+          .map((p) => projectLabel(context, p.projectId))
+          .join(", ")} depend(s) on it. Remove them together via --projects.`
+      );
+    }
+  }
+
+  await withBufferedFs(async () => {
+    for (const project of projects) {
+      await removeProjectFiles(context, project);
+    }
+    await removeStyleTokens(context, projectIds);
+
+    context.config.projects = context.config.projects.filter(
+      (p) => !projectIds.includes(p.projectId)
+    );
+    context.config.globalVariants.variantGroups = context.config.globalVariants.variantGroups.filter(
+      (g) => !projectIds.includes(g.projectId)
+    );
+    context.lock.projects = remainingLocks;
+    await updateConfig(context, context.config);
+
+    await fixAllImportStatements(context);
+  });
+
+  const stillNeeded = new Set(
+    remainingLocks.flatMap((p) => Object.keys(p.dependencies))
+  );
+  const unneeded = removedDependencyIds.filter(
+    (projectId) =>
+      !stillNeeded.has(projectId) &&
+      remainingLocks.some((p) => p.projectId === projectId)
+  );
+  if (unneeded.length > 0) {
+    logger.info(
+      `No remaining project depends on ${unneeded
+        .map((projectId) => projectLabel(context, projectId))
+        .join(", ")}; you may want to remove it as well.`
+    );
+  }
+}
+
+function projectLabel(context: PlasmicContext, projectId: string) {
+  const project = context.config.projects.find(
+    (p) => p.projectId === projectId
+  );
+  return project ? `${project.projectName} (${projectId})` : projectId;
+}
+
+async function removeProjectFiles(
+  context: PlasmicContext,
+  project: ProjectConfig
+) {
+  logger.info(`Removing ${project.projectName} (${project.projectId})`);
+  const deleteIfExists = (filePath: string | undefined) => {
+    if (filePath && fileExists(context, filePath)) {
+      deleteFile(context, filePath);
+    }
+  };
+
+  for (const component of project.components) {
+    logger.info(`Deleting component: ${component.name}`);
+    deleteIfExists(component.renderModuleFilePath);
+    deleteIfExists(component.cssFilePath);
+
+    const skeletonPath = component.importSpec.modulePath;
+    if (isLocalModulePath(skeletonPath) && fileExists(context, skeletonPath)) {
+      const deleteSkeleton = await confirmWithUser(
+        `Do you want to delete ${skeletonPath}?`,
+        context.cliArgs.yes
+      );
+      if (deleteSkeleton) {
+        deleteFile(context, skeletonPath);
+        deleteIfExists(storyFilePath(context, component));
+      }
+    }
+  }
+  project.icons.forEach((icon) => deleteIfExists(icon.moduleFilePath));
+  project.images.forEach((image) => deleteIfExists(image.filePath));
+  project.jsBundleThemes?.forEach((theme) =>
+    deleteIfExists(theme.themeFilePath)
+  );
+  deleteIfExists(project.cssFilePath);
+  if (context.config.code.barrels) {
+    deleteIfExists(defaultBarrelPath(context, project));
+  }
+  context.config.globalVariants.variantGroups
+    .filter((g) => g.projectId === project.projectId)
+    .forEach((g) => deleteIfExists(g.contextFilePath));
+  deleteMergeBases(context, project.projectId);
+}
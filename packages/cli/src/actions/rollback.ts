@@ -0,0 +1,98 @@
+import path from "upath";
+import { CommonArgs } from "..";
+import { logger } from "../deps";
+import { HandledError } from "../utils/error";
+import {
+  deleteFileBuffered,
+  existsBuffered,
+  withBufferedFs,
+  writeFileText,
+} from "../utils/file-utils";
+import { getContext } from "../utils/get-context";
+import {
+  deleteSnapshot,
+  readSnapshotFile,
+  readSnapshots,
+} from "../utils/snapshot-utils";
+import { confirmWithUser } from "../utils/user-utils";
+
+export interface RollbackArgs extends CommonArgs {
+  list?: boolean;
+  count: number;
+  to?: string;
+}
+
+/**
+ * Restores plasmic.json, plasmic.lock and the files that the last sync
+ * changed to what they were before it, or, with `to`, to what they were
+ * before the sync that took the given snapshot. The restored snapshots are
+ * deleted, so that rolling back again goes further back.
+ */
+export async function rollback(opts: RollbackArgs) {
+  const context = await getContext(opts, {
+    enableSkipAuth: true,
+    keepMissingFiles: true,
+  });
+  const snapshots = readSnapshots(context);
+
+  if (opts.list) {
+    if (snapshots.length === 0) {
+      logger.info("There are no sync snapshots.");
+    }
+    for (const snapshot of snapshots.slice(0, opts.count)) {
+      logger.info(
+        `${snapshot.id}  ${snapshot.description} (${snapshot.files.length} file(s))`
+      );
+    }
+    return;
+  }
+
+  if (snapshots.length === 0) {
+    throw new HandledError("There are no sync snapshots to roll back to.");
+  }
+  const last = opts.to ? snapshots.findIndex((s) => s.id === opts.to) : 0;
+  if (last < 0) {
+    throw new HandledError(
+      `There is no snapshot ${opts.to}; run plasmic rollback --list to see them.`
+    );
+  }
+  const restored = snapshots.slice(0, last + 1);
+
+  // Going from the newest snapshot to the oldest one, so that each file ends
+  // up as it was before the first of the syncs that changed it.
+  const contents = new Map<string, Buffer | undefined>();
+  for (const snapshot of restored) {
+    for (const file of snapshot.files) {
+      contents.set(
+        path.join(context.rootDir, file.path),
+        readSnapshotFile(context, snapshot, file)
+      );
+    }
+  }
+
+  const confirmed = await confirmWithUser(
+    `This will undo ${restored
+      .map((s) => s.description)
+      .join("; ")}, and overwrite ${contents.size} file(s). Continue?`,
+    opts.yes
+  );
+  if (!confirmed) {
+    return;
+  }
+
+  await withBufferedFs(async () => {
+    for (const [filePath, content] of contents.entries()) {
+      if (content !== undefined) {
+        writeFileText(filePath, content);
+      } else if (existsBuffered(filePath)) {
+        deleteFileBuffered(filePath);
+      }
+    }
+  });
+  restored.forEach((s) => deleteSnapshot(context, s.id));
+  logger.info(
+    `Restored ${contents.size} file(s) to before ${
+      restored[restored.length - 1].description
+    }.`
+  );
+}
@@ -0,0 +1,124 @@
+import chalk from "chalk";
+import { CommonArgs } from "..";
+import { logger } from "../deps";
+import { HandledError } from "../utils/error";
+import { findOrphanedFiles, withBufferedFs } from "../utils/file-utils";
+import { generateMetadata, getContext } from "../utils/get-context";
+import { findInstalledVersion, getCliVersion } from "../utils/npm-utils";
+import * as semver from "../utils/semver";
+import { generateLockedFiles, getSyncedProjects } from "./diff";
+
+export interface StatusArgs extends CommonArgs {
+  projects: readonly string[];
+}
+
+/**
+ * Reports whether the synced projects are up to date, whether the generated
+ * files have been deleted or edited since they were synced, and whether the
+ * required Plasmic packages are installed. Fails if there are any problems,
+ * so that it can be run in CI.
+ */
+export async function status(opts: StatusArgs) {
+  const context = await getContext(opts, { keepMissingFiles: true });
+  const projects = getSyncedProjects(context, opts.projects);
+
+  let problems = 0;
+  const report = (line: string, isProblem = true) => {
+    if (isProblem) {
+      problems++;
+    }
+    logger.info(isProblem ? chalk.yellow(line) : line);
+  };
+
+  const versionResolution = await context.api.resolveSync(
+    projects.map((p) => ({
+      projectId: p.projectId,
+      versionRange: p.version,
+      componentIdOrNames: undefined,
+      projectApiToken: p.projectApiToken,
+    }))
+  );
+
+  await withBufferedFs(
+    async () => {
+      const { files, regeneratedComponentIds } = await generateLockedFiles(
+        context,
+        projects,
+        generateMetadata(context, "command=status")
+      );
+
+      for (const project of projects) {
+        logger.info(
+          chalk.bold(`${project.projectName} (${project.projectId})`)
+        );
+        const syncedVersion = context.lock.projects.find(
+          (p) => p.projectId === project.projectId
+        )?.version;
+        const availableVersion = versionResolution.projects.find(
+          (p) => p.projectId === project.projectId
+        )?.version;
+        if (!syncedVersion) {
+          report(`  Missing from plasmic.lock; run plasmic sync.`);
+          continue;
+        }
+        report(
+          `  Synced version: ${syncedVersion}; latest version matching "${
+            project.version
+          }": ${availableVersion ?? "none"}`,
+          !!availableVersion && semver.gt(availableVersion, syncedVersion)
+        );
+
+        for (const component of project.components) {
+          if (regeneratedComponentIds.includes(component.id)) {
+            report(
+              `  ${component.name}: Plasmic now generates different code than when it was synced`
+            );
+          }
+          for (const file of files) {
+            if (file.componentId !== component.id) {
+              continue;
+            }
+            if (file.localContent === undefined) {
+              report(`  ${component.name}: missing ${file.path}`);
+            } else if (
+              file.managed &&
+              file.localContent !== file.generatedContent
+            ) {
+              report(`  ${component.name}: modified ${file.path}`);
+            }
+          }
+        }
+      }
+    },
+    { dryRun: true }
+  );
+
+  const orphans = findOrphanedFiles(context);
+  if (orphans.length > 0) {
+    logger.info(chalk.bold("Files not referenced by plasmic.json"));
+    orphans.forEach((f) => report(`  ${f}`));
+  }
+
+  const requireds = await context.api.requiredPackages();
+  logger.info(chalk.bold("Required packages"));
+  for (const [pkg, installedVersion] of [
+    ["@plasmicapp/cli", getCliVersion()],
+    [
+      "@plasmicapp/react-web",
+      findInstalledVersion(context, "@plasmicapp/react-web"),
+    ],
+  ] as const) {
+    const requiredVersion = requireds[pkg];
+    report(
+      `  ${pkg}: ${
+        installedVersion ?? "not installed"
+      } (requires >=${requiredVersion})`,
+      !installedVersion || semver.gt(requiredVersion, installedVersion)
+    );
+  }
+
+  if (problems > 0) {
+    throw new HandledError(`Found ${problems} problem(s).`);
+  }
+  logger.info("Everything is in sync.");
+}
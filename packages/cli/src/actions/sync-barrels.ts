@@ -0,0 +1,71 @@
+import L from "lodash";
+import { logger } from "../deps";
+import { formatAsLocal, makeImportPath } from "../utils/code-utils";
+import { PlasmicContext, ProjectConfig } from "../utils/config-utils";
+import { defaultBarrelPath, writeFileContent } from "../utils/file-utils";
+import { transformFile } from "../utils/plugin-utils";
+
+/**
+ * Writes the index module of each project, which re-exports the project's
+ * components, icons and global variant contexts, so that app code has a
+ * single place to import them from.
+ */
+export async function syncBarrels(context: PlasmicContext) {
+  for (const project of context.config.projects) {
+    await syncBarrel(context, project);
+  }
+}
+
+async function syncBarrel(context: PlasmicContext, project: ProjectConfig) {
+  const barrelPath = defaultBarrelPath(context, project);
+  const importPath = (toPath: string) =>
+    makeImportPath(context, barrelPath, toPath, true);
+  const usedNames = new Set<string>();
+  const uniqueName = (name: string) => {
+    const base = L.upperFirst(L.camelCase(name)) || "Unnamed";
+    let result = base;
+    for (let i = 2; usedNames.has(result); i++) {
+      result = `${base}${i}`;
+    }
+    usedNames.add(result);
+    return result;
+  };
+
+  const lines = [
+    "// This is auto-generated by Plasmic; do not edit.",
+    ...L.sortBy(project.components, (c) => c.name).map((component) => {
+      const { modulePath, exportName } = component.importSpec;
+      return `export { ${exportName ?? "default"} as ${uniqueName(
+        component.name
+      )} } from "${importPath(modulePath)}";`;
+    }),
+    ...L.sortBy(project.icons, (icon) => icon.name).map(
+      (icon) =>
+        `export { default as ${uniqueName(
+          /icon$/i.test(icon.name) ? icon.name : `${icon.name}Icon`
+        )} } from "${importPath(icon.moduleFilePath)}";`
+    ),
+    ...L.sortBy(
+      context.config.globalVariants.variantGroups.filter(
+        (group) => group.projectId === project.projectId
+      ),
+      (group) => group.name
+    ).map((group) => `export * from "${importPath(group.contextFilePath)}";`),
+    "",
+  ];
+
+  if (context.cliArgs.quiet !== true) {
+    logger.info(`Writing ${barrelPath}`);
+  }
+  await writeFileContent(
+    context,
+    barrelPath,
+    await transformFile(
+      context,
+      "barrel",
+      barrelPath,
+      formatAsLocal(context, lines.join("\n"), barrelPath)
+    ),
+    { force: true }
+  );
+}
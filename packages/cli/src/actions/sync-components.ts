@@ -1,11 +1,11 @@
 import {
   ComponentInfoForMerge,
-  makeCachedProjectSyncDataProvider,
   mergeFiles,
+  WarningInfo,
 } from "@plasmicapp/code-merger";
 import L from "lodash";
 import path from "upath";
-import { AppServerError, ChecksumBundle, ComponentBundle } from "../api";
+import { ChecksumBundle, ComponentBundle } from "../api";
 import { logger } from "../deps";
 import { ComponentUpdateSummary, formatAsLocal } from "../utils/code-utils";
 import {
@@ -27,7 +27,14 @@ import {
   writeFileContent,
 } from "../utils/file-utils";
 import { assert, ensure } from "../utils/lang-utils";
+import { transformFile } from "../utils/plugin-utils";
+import {
+  makeMergeBaseProvider,
+  saveSkeletonAsMergeBase,
+} from "../utils/merge-base-utils";
+import { reportEvent } from "../utils/reporter";
 import { confirmWithUser } from "../utils/user-utils";
+import { storyFilePath, syncMissingStory, syncStory } from "./sync-stories";
 
 export interface ComponentPendingMerge {
   // path of the skeleton module
@@ -52,6 +59,20 @@ const updateDirectSkeleton = async (
 ) => {
   // merge code!
   const componentByUuid = new Map<string, ComponentInfoForMerge>();
+  const warningInfos = new Map<string, WarningInfo>();
+  const reportConflict = (
+    message: string,
+    resolution: "merged" | "overwritten" | "failed"
+  ) =>
+    reportEvent({
+      type: "merge-conflict",
+      projectId: compConfig.projectId,
+      componentId: compConfig.id,
+      name: compConfig.name,
+      filePath: compConfig.importSpec.modulePath,
+      message,
+      resolution,
+    });
 
   componentByUuid.set(compConfig.id, {
     editedFile: editedFileContent,
@@ -61,31 +82,40 @@ const updateDirectSkeleton = async (
   const mergedFiles = await mergeFiles(
     componentByUuid,
     compConfig.projectId,
-    makeCachedProjectSyncDataProvider(async (projectId, revision) => {
-      try {
+    makeMergeBaseProvider(
+      context,
+      compConfig.id,
+      async (projectId, revision) => {
         return await context.api.projectSyncMetadata(projectId, revision, true);
-      } catch (e) {
-        if (
-          e instanceof AppServerError &&
-          /revision \d+ not found/.test(e.message)
-        ) {
-          throw e;
-        } else {
-          logger.log(e.messag);
-          process.exit(1);
-        }
       }
-    }),
+    ),
     () => {},
-    appendJsxOnMissingBase
+    appendJsxOnMissingBase,
+    warningInfos
   );
   const merged = mergedFiles?.get(compConfig.id);
+  const warnings = warningInfos.get(compConfig.id)?.rawWarnings() ?? [];
+  for (const warning of warnings) {
+    logger.warn(`${compConfig.importSpec.modulePath}: ${warning}`);
+    reportConflict(warning, "merged");
+  }
   if (merged) {
-    await writeFileContent(context, compConfig.importSpec.modulePath, merged, {
-      force: true,
-    });
+    await writeFileContent(
+      context,
+      compConfig.importSpec.modulePath,
+      await transformFile(
+        context,
+        "skeletonModule",
+        compConfig.importSpec.modulePath,
+        formatAsLocal(context, merged, compConfig.importSpec.modulePath)
+      ),
+      {
+        force: true,
+      }
+    );
   } else {
     if (!forceOverwrite) {
+      reportConflict("Cannot merge the edited file", "failed");
       throw new HandledError(
         `Cannot merge ${compConfig.importSpec.modulePath}. If you just switched the code scheme for the component from blackbox to direct, use --force-overwrite option to force the switch.`
       );
@@ -93,10 +123,20 @@ const updateDirectSkeleton = async (
       logger.warn(
         `Overwrite ${compConfig.importSpec.modulePath} despite merge failure`
       );
+      reportConflict("Cannot merge the edited file", "overwritten");
       await writeFileContent(
         context,
         compConfig.importSpec.modulePath,
-        newFileContent,
+        await transformFile(
+          context,
+          "skeletonModule",
+          compConfig.importSpec.modulePath,
+          formatAsLocal(
+            context,
+            newFileContent,
+            compConfig.importSpec.modulePath
+          )
+        ),
         {
           force: true,
         }
@@ -115,7 +155,11 @@ export async function syncProjectComponents(
   summary: Map<string, ComponentUpdateSummary>,
   pendingMerge: ComponentPendingMerge[],
   projectLock: ProjectLock,
-  checksums: ChecksumBundle
+  checksums: ChecksumBundle,
+  // Components left out by the component filters, which must be kept as is
+  skippedComponentIds: Set<string>,
+  // The render modules as generated in typescript, by component id
+  tsxRenderModules: Map<string, string>
 ) {
   const componentsFromChecksums = new Set([
     ...checksums.cssRulesChecksums.map(([id, _]) => id),
@@ -125,7 +169,10 @@ export async function syncProjectComponents(
   const componentBundleIds = L.keyBy(componentBundles, (i) => i.id);
   const deletedComponents = L.filter(
     allCompConfigs,
-    (i) => !componentBundleIds[i.id] && !componentsFromChecksums.has(i.id)
+    (i) =>
+      !componentBundleIds[i.id] &&
+      !componentsFromChecksums.has(i.id) &&
+      !skippedComponentIds.has(i.id)
   );
 
   const renderModuleFileLocks = L.keyBy(
@@ -154,6 +201,12 @@ export async function syncProjectComponents(
       deleteFile(context, componentConfig.renderModuleFilePath);
       deleteFile(context, componentConfig.cssFilePath);
       deletedComponentFiles.add(deletedComponent.id);
+      reportEvent({
+        type: "component-deleted",
+        projectId: project.projectId,
+        componentId: componentConfig.id,
+        name: componentConfig.name,
+      });
 
       const skeletonPath = componentConfig.importSpec.modulePath;
       if (fileExists(context, skeletonPath)) {
@@ -163,6 +216,10 @@ export async function syncProjectComponents(
         );
         if (deleteSkeleton) {
           deleteFile(context, skeletonPath);
+          const storyPath = storyFilePath(context, componentConfig);
+          if (storyPath && fileExists(context, storyPath)) {
+            deleteFile(context, storyPath);
+          }
         }
       }
     }
@@ -174,7 +231,9 @@ export async function syncProjectComponents(
   const deletedComponentIds = new Set(deletedComponents.map((i) => i.id));
   projectLock.fileLocks = projectLock.fileLocks.filter(
     (fileLock) =>
-      (fileLock.type !== "renderModule" && fileLock.type !== "cssRules") ||
+      (fileLock.type !== "renderModule" &&
+        fileLock.type !== "cssRules" &&
+        fileLock.type !== "story") ||
       !deletedComponentIds.has(fileLock.assetId)
   );
 
@@ -233,9 +292,19 @@ export async function syncProjectComponents(
       project.components.push(allCompConfigs[id]);
 
       // Because it's the first time, we also generate the skeleton file.
-      await writeFileContent(context, skeletonPath, skeletonModule, {
-        force: false,
-      });
+      await writeFileContent(
+        context,
+        skeletonPath,
+        await transformFile(
+          context,
+          "skeletonModule",
+          skeletonPath,
+          formatAsLocal(context, skeletonModule, skeletonPath)
+        ),
+        {
+          force: false,
+        }
+      );
     } else {
       // This is an existing component.
 
@@ -334,7 +403,16 @@ export async function syncProjectComponents(
           await writeFileContent(
             context,
             compConfig.importSpec.modulePath,
-            skeletonModule,
+            await transformFile(
+              context,
+              "skeletonModule",
+              compConfig.importSpec.modulePath,
+              formatAsLocal(
+                context,
+                skeletonModule,
+                compConfig.importSpec.modulePath
+              )
+            ),
             {
               force: true,
             }
@@ -343,10 +421,30 @@ export async function syncProjectComponents(
           logger.warn(
             `file ${compConfig.importSpec.modulePath} is likely in "direct" scheme. If you intend to switch the code scheme from direct to blackbox, use --force-overwrite option to force the switch.`
           );
+          reportEvent({
+            type: "merge-conflict",
+            projectId: project.projectId,
+            componentId: id,
+            name: componentName,
+            filePath: compConfig.importSpec.modulePath,
+            message:
+              "The file is likely in the direct scheme, but the component is synced in the blackbox scheme",
+            resolution: "kept-local",
+          });
         }
       }
     }
 
+    if (scheme === "direct") {
+      saveSkeletonAsMergeBase(
+        context,
+        project.projectId,
+        id,
+        nameInIdToUuid,
+        skeletonModule
+      );
+    }
+
     assert(L.isArray(projectLock.fileLocks));
     // Update FileLocks
     if (renderModuleFileLocks[id]) {
@@ -373,15 +471,64 @@ export async function syncProjectComponents(
     await writeFileContent(
       context,
       compConfig.renderModuleFilePath,
-      renderModule,
+      await transformFile(
+        context,
+        "renderModule",
+        compConfig.renderModuleFilePath,
+        formatAsLocal(context, renderModule, compConfig.renderModuleFilePath)
+      ),
       {
         force: !isNew,
       }
     );
-    const formattedCssRules = formatAsLocal(cssRules, compConfig.cssFilePath);
-    await writeFileContent(context, compConfig.cssFilePath, formattedCssRules, {
-      force: !isNew,
-    });
+    const formattedCssRules = formatAsLocal(
+      context,
+      cssRules,
+      compConfig.cssFilePath
+    );
+    await writeFileContent(
+      context,
+      compConfig.cssFilePath,
+      await transformFile(
+        context,
+        "cssRules",
+        compConfig.cssFilePath,
+        formattedCssRules
+      ),
+      {
+        force: !isNew,
+      }
+    );
+    if (context.config.code.stories) {
+      await syncStory(
+        context,
+        project,
+        compConfig,
+        tsxRenderModules.get(id) ?? renderModule
+      );
+    }
     summary.set(id, { skeletonModuleModified });
+    reportEvent({
+      type: "component-synced",
+      projectId: project.projectId,
+      componentId: id,
+      name: componentName,
+      version,
+      isNew,
+      renderModuleFilePath: compConfig.renderModuleFilePath,
+      skeletonModulePath: compConfig.importSpec.modulePath,
+      cssFilePath: compConfig.cssFilePath,
+    });
+  }
+
+  if (context.config.code.stories) {
+    for (const compConfig of project.components) {
+      if (
+        !componentBundleIds[compConfig.id] &&
+        !skippedComponentIds.has(compConfig.id)
+      ) {
+        await syncMissingStory(context, project, compConfig);
+      }
+    }
   }
 }
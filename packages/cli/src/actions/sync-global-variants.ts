@@ -12,6 +12,8 @@ import {
   writeFileContent,
 } from "../utils/file-utils";
 import { ensure } from "../utils/lang-utils";
+import { transformFile } from "../utils/plugin-utils";
+import { reportEvent } from "../utils/reporter";
 
 export async function syncGlobalVariants(
   context: PlasmicContext,
@@ -99,9 +101,25 @@ export async function syncGlobalVariants(
     await writeFileContent(
       context,
       variantConfig.contextFilePath,
-      formatAsLocal(bundle.contextModule, variantConfig.contextFilePath),
+      await transformFile(
+        context,
+        "globalVariant",
+        variantConfig.contextFilePath,
+        formatAsLocal(
+          context,
+          bundle.contextModule,
+          variantConfig.contextFilePath
+        )
+      ),
       { force: !isNew }
     );
+    reportEvent({
+      type: "global-variant-synced",
+      projectId,
+      globalVariantId: bundle.id,
+      name: bundle.name,
+      filePath: variantConfig.contextFilePath,
+    });
   }
 
   const deletedVariantsFiles = new Set<string>();
@@ -113,6 +131,12 @@ export async function syncGlobalVariants(
       );
       deleteFile(context, variantConfig.contextFilePath);
       deletedVariantsFiles.add(deletedGlobalVariant.id);
+      reportEvent({
+        type: "global-variant-deleted",
+        projectId,
+        globalVariantId: deletedGlobalVariant.id,
+        name: variantConfig.name,
+      });
     }
   }
   context.config.globalVariants.variantGroups = context.config.globalVariants.variantGroups.filter(
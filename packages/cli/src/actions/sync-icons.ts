@@ -17,6 +17,8 @@ import {
   writeFileContent,
 } from "../utils/file-utils";
 import { ensure } from "../utils/lang-utils";
+import { transformFile } from "../utils/plugin-utils";
+import { reportEvent } from "../utils/reporter";
 
 export interface SyncIconsArgs extends CommonArgs {
   projects: readonly string[];
@@ -106,11 +108,23 @@ export async function syncProjectIconAssets(
     await writeFileContent(
       context,
       iconConfig.moduleFilePath,
-      formatAsLocal(bundle.module, iconConfig.moduleFilePath),
+      await transformFile(
+        context,
+        "icon",
+        iconConfig.moduleFilePath,
+        formatAsLocal(context, bundle.module, iconConfig.moduleFilePath)
+      ),
       {
         force: !isNew,
       }
     );
+    reportEvent({
+      type: "icon-synced",
+      projectId,
+      iconId: bundle.id,
+      name: bundle.name,
+      filePath: iconConfig.moduleFilePath,
+    });
   }
 
   const deletedIconFiles = new Set<string>();
@@ -122,6 +136,12 @@ export async function syncProjectIconAssets(
       );
       deleteFile(context, iconConfig.moduleFilePath);
       deletedIconFiles.add(deletedIcon.id);
+      reportEvent({
+        type: "icon-deleted",
+        projectId,
+        iconId: deletedIcon.id,
+        name: iconConfig.name,
+      });
     }
   }
   project.icons = project.icons.filter((i) => !deletedIconFiles.has(i.id));
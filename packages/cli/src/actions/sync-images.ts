@@ -18,6 +18,8 @@ import {
   writeFileContent,
 } from "../utils/file-utils";
 import { ensure } from "../utils/lang-utils";
+import { transformFile } from "../utils/plugin-utils";
+import { reportEvent } from "../utils/reporter";
 
 export async function syncProjectImageAssets(
   context: PlasmicContext,
@@ -96,11 +98,23 @@ export async function syncProjectImageAssets(
     await writeFileContent(
       context,
       imageConfig.filePath,
-      Buffer.from(bundle.blob, "base64"),
+      await transformFile(
+        context,
+        "image",
+        imageConfig.filePath,
+        Buffer.from(bundle.blob, "base64")
+      ),
       {
         force: !isNew,
       }
     );
+    reportEvent({
+      type: "image-written",
+      projectId,
+      imageId: bundle.id,
+      name: bundle.name,
+      filePath: imageConfig.filePath,
+    });
   }
 
   const deletedImageFiles = new Set<string>();
@@ -112,6 +126,12 @@ export async function syncProjectImageAssets(
       );
       deleteFile(context, imageConfig.filePath);
       deletedImageFiles.add(deletedImage.id);
+      reportEvent({
+        type: "image-deleted",
+        projectId,
+        imageId: deletedImage.id,
+        name: imageConfig.name,
+      });
     }
   }
   project.images = project.images.filter((i) => !deletedImageFiles.has(i.id));
@@ -152,7 +172,12 @@ export async function fixComponentCssReferences(
   });
 
   if (prevContent !== newContent) {
-    await writeFileContent(context, cssFilePath, newContent, { force: true });
+    await writeFileContent(
+      context,
+      cssFilePath,
+      await transformFile(context, "cssRules", cssFilePath, newContent),
+      { force: true }
+    );
   }
 }
 
@@ -177,9 +202,19 @@ export async function fixComponentImagesReferences(
   });
 
   if (prevContent !== newContent) {
-    await writeFileContent(context, renderModuleFilePath, newContent, {
-      force: true,
-    });
+    await writeFileContent(
+      context,
+      renderModuleFilePath,
+      await transformFile(
+        context,
+        "renderModule",
+        renderModuleFilePath,
+        newContent
+      ),
+      {
+        force: true,
+      }
+    );
     // Returns true if the content changed
     return true;
   }
@@ -0,0 +1,366 @@
+import * as parser from "@babel/parser";
+import { Statement, TSType } from "@babel/types";
+import { createHash } from "crypto";
+import L from "lodash";
+import path from "upath";
+import { logger } from "../deps";
+import { formatAsLocal, isLocalModulePath } from "../utils/code-utils";
+import {
+  ComponentConfig,
+  getOrAddProjectLock,
+  PlasmicContext,
+  ProjectConfig,
+} from "../utils/config-utils";
+import {
+  fileExists,
+  readFileContent,
+  stripExtension,
+  writeFileContent,
+} from "../utils/file-utils";
+import { transformFile } from "../utils/plugin-utils";
+
+// Past this many variant combinations, we only write a story per variant
+const MAX_STORIES = 64;
+
+interface VariantProp {
+  name: string;
+  // The values to render the component with, besides leaving the prop out
+  values: (true | string | string[])[];
+  control: "boolean" | "select" | "check";
+  options: string[];
+}
+
+/**
+ * Path of the Storybook story for a component, next to its skeleton module,
+ * or undefined if it doesn't get one. Pages don't, since a story in the
+ * pages directory would be taken for a page.
+ */
+export function storyFilePath(
+  context: PlasmicContext,
+  component: ComponentConfig
+) {
+  const skeletonPath = component.importSpec.modulePath;
+  if (component.componentType === "page" || !isLocalModulePath(skeletonPath)) {
+    return undefined;
+  }
+  return `${stripExtension(skeletonPath)}.stories.${
+    context.config.code.lang === "ts" ? "tsx" : "jsx"
+  }`;
+}
+
+/**
+ * Whether the story of `component`, whose content is `content`, differs from
+ * what Plasmic last wrote, in which case it must be left alone.
+ */
+export function isStoryEdited(
+  context: PlasmicContext,
+  component: ComponentConfig,
+  content: string
+) {
+  const fileLock = getOrAddProjectLock(
+    context,
+    component.projectId
+  ).fileLocks.find((fl) => fl.type === "story" && fl.assetId === component.id);
+  return fileLock?.checksum !== storyChecksum(content);
+}
+
+/**
+ * Records `content` as what Plasmic last wrote to the story of `component`.
+ */
+export function lockStory(
+  context: PlasmicContext,
+  component: ComponentConfig,
+  content: string
+) {
+  const projectLock = getOrAddProjectLock(context, component.projectId);
+  projectLock.fileLocks = [
+    ...projectLock.fileLocks.filter(
+      (fl) => fl.type !== "story" || fl.assetId !== component.id
+    ),
+    { type: "story", assetId: component.id, checksum: storyChecksum(content) },
+  ];
+}
+
+/**
+ * Writes the Storybook story of a component, with a story for each
+ * combination of the variants declared in its render module, which must be
+ * in typescript. A story that has been edited since Plasmic wrote it is kept
+ * as is.
+ */
+export async function syncStory(
+  context: PlasmicContext,
+  project: ProjectConfig,
+  component: ComponentConfig,
+  renderModule: string
+) {
+  const storyPath = storyFilePath(context, component);
+  if (!storyPath) {
+    return;
+  }
+  const story = await transformFile(
+    context,
+    "story",
+    storyPath,
+    formatAsLocal(
+      context,
+      makeStoryModule(context, project, component, renderModule),
+      storyPath
+    )
+  );
+  if (fileExists(context, storyPath)) {
+    const existing = readFileContent(context, storyPath);
+    if (isStoryEdited(context, component, existing)) {
+      if (context.cliArgs.quiet !== true) {
+        logger.info(`Keeping ${storyPath}, which has been edited.`);
+      }
+      return;
+    }
+    if (existing === story) {
+      return;
+    }
+  }
+  if (context.cliArgs.quiet !== true) {
+    logger.info(`Writing ${storyPath}`);
+  }
+  await writeFileContent(context, storyPath, story, { force: true });
+  lockStory(context, component, story);
+}
+
+/**
+ * Writes the story of a component that wasn't synced this time, because it
+ * hasn't changed, if the story is missing, e.g. because code.stories was
+ * turned on after the component was synced. The variants are read from the
+ * render module on disk, so in javascript projects, there are no variant
+ * stories until the component changes.
+ */
+export async function syncMissingStory(
+  context: PlasmicContext,
+  project: ProjectConfig,
+  component: ComponentConfig
+) {
+  const storyPath = storyFilePath(context, component);
+  if (
+    !storyPath ||
+    fileExists(context, storyPath) ||
+    !fileExists(context, component.renderModuleFilePath)
+  ) {
+    return;
+  }
+  await syncStory(
+    context,
+    project,
+    component,
+    readFileContent(context, component.renderModuleFilePath)
+  );
+}
+
+function storyChecksum(content: string) {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+function makeStoryModule(
+  context: PlasmicContext,
+  project: ProjectConfig,
+  component: ComponentConfig,
+  renderModule: string
+) {
+  const { name } = component;
+  const isTs = context.config.code.lang === "ts";
+  const variantProps = readVariantProps(component, renderModule);
+  const skeletonPath = component.importSpec.modulePath;
+  const exportName = component.importSpec.exportName;
+  const importedName =
+    !exportName || exportName === "default"
+      ? name
+      : exportName === name
+      ? `{ ${name} }`
+      : `{ ${exportName} as ${name} }`;
+
+  const usedNames = new Set(["Default"]);
+  const uniqueName = (storyName: string) => {
+    let result = storyName;
+    for (let i = 2; usedNames.has(result); i++) {
+      result = `${storyName}${i}`;
+    }
+    usedNames.add(result);
+    return result;
+  };
+  const stories = variantCombinations(component, variantProps).map(
+    (combination) => {
+      const storyName = uniqueName(
+        combination
+          .map(([prop, value]) =>
+            L.upperFirst(
+              L.camelCase(value === true ? prop : `${prop} ${value}`)
+            )
+          )
+          .join("")
+      );
+      const attrs = combination
+        .map(([prop, value]) =>
+          value === true ? prop : `${prop}={${JSON.stringify(value)}}`
+        )
+        .join(" ");
+      return `export const ${storyName} = () => <${name} ${attrs} />;`;
+    }
+  );
+
+  const argTypes = variantProps.map(({ name: prop, control, options }) =>
+    control === "boolean"
+      ? `${prop}: { control: { type: "boolean" } },`
+      : `${prop}: { control: { type: "${control}" }, options: ${JSON.stringify(
+          options
+        )} },`
+  );
+
+  return [
+    `// This story is generated by Plasmic from the variants of ${name}. Plasmic`,
+    `// regenerates it when the variants change, unless you have edited it.`,
+    `import * as React from "react";`,
+    `import ${importedName} from "./${path.basename(
+      stripExtension(skeletonPath)
+    )}";`,
+    "",
+    "export default {",
+    `  title: ${JSON.stringify(`${project.projectName}/${name}`)},`,
+    `  component: ${name},`,
+    `  argTypes: {`,
+    ...argTypes,
+    `  },`,
+    "};",
+    "",
+    isTs
+      ? `export const Default = (args: React.ComponentProps<typeof ${name}>) => <${name} {...args} />;`
+      : `export const Default = (args) => <${name} {...args} />;`,
+    ...stories,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Reads the variant props of a component from the Plasmic*__VariantsArgs
+ * type of its render module. Render modules converted to javascript don't
+ * have it anymore.
+ */
+function readVariantProps(component: ComponentConfig, renderModule: string) {
+  const typeName = `Plasmic${component.name}__VariantsArgs`;
+  let statements: Statement[];
+  try {
+    statements = parser.parse(renderModule, {
+      sourceType: "module",
+      plugins: ["jsx", "typescript"],
+    }).program.body;
+  } catch (e) {
+    logger.warn(
+      `Could not read the variants of ${component.name}, whose render module failed to parse: ${e.message}`
+    );
+    return [];
+  }
+  const declaration = statements
+    .map((statement) =>
+      statement.type === "ExportNamedDeclaration"
+        ? statement.declaration
+        : statement
+    )
+    .find(
+      (statement) =>
+        statement?.type === "TSTypeAliasDeclaration" &&
+        statement.id.name === typeName
+    );
+  if (
+    declaration?.type !== "TSTypeAliasDeclaration" ||
+    declaration.typeAnnotation.type !== "TSTypeLiteral"
+  ) {
+    return [];
+  }
+
+  const variantProps: VariantProp[] = [];
+  for (const member of declaration.typeAnnotation.members) {
+    if (
+      member.type !== "TSPropertySignature" ||
+      member.key.type !== "Identifier"
+    ) {
+      continue;
+    }
+    const prop = member.key.name;
+    const argType = member.typeAnnotation?.typeAnnotation;
+    if (
+      argType?.type !== "TSTypeReference" ||
+      argType.typeName.type !== "Identifier"
+    ) {
+      continue;
+    }
+    const options = stringLiterals(argType.typeParameters?.params[0]);
+    switch (argType.typeName.name) {
+      case "SingleBooleanChoiceArg":
+        variantProps.push({
+          name: prop,
+          values: [true],
+          control: "boolean",
+          options,
+        });
+        break;
+      case "SingleChoiceArg":
+        variantProps.push({
+          name: prop,
+          values: options,
+          control: "select",
+          options,
+        });
+        break;
+      case "MultiChoiceArg":
+        variantProps.push({
+          name: prop,
+          values: options.map((option) => [option]),
+          control: "check",
+          options,
+        });
+        break;
+    }
+  }
+  return variantProps;
+}
+
+function stringLiterals(type: TSType | undefined): string[] {
+  if (type?.type === "TSUnionType") {
+    return L.flatMap(type.types, stringLiterals);
+  }
+  return type?.type === "TSLiteralType" && type.literal.type === "StringLiteral"
+    ? [type.literal.value]
+    : [];
+}
+
+/**
+ * Every combination of variant prop values, leaving out the empty one, which
+ * is the Default story. If there are too many, only each value on its own.
+ */
+function variantCombinations(
+  component: ComponentConfig,
+  variantProps: VariantProp[]
+) {
+  type Combination = [string, true | string | string[]][];
+  const singles = variantProps.map(({ name, values }) =>
+    values.map((value): Combination => [[name, value]])
+  );
+  const count = L.reduce(
+    singles,
+    (product, values) => product * (values.length + 1),
+    1
+  );
+  if (count > MAX_STORIES) {
+    logger.warn(
+      `${component.name} has ${count} variant combinations, so its story only renders each variant on its own.`
+    );
+    return L.flatten(singles);
+  }
+  return L.reduce(
+    singles,
+    (combinations: Combination[], values) => [
+      ...combinations,
+      ...L.flatMap(combinations, (combination) =>
+        values.map((value) => [...combination, ...value])
+      ),
+    ],
+    [[]]
+  ).slice(1);
+}
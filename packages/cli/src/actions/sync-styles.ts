@@ -1,11 +1,16 @@
 import { StyleTokensMap } from "../api";
-import { logger } from "../deps";
 import { PlasmicContext } from "../utils/config-utils";
+import { ConfigError } from "../utils/error";
 import {
   fileExists,
   readFileContent,
   writeFileContent,
 } from "../utils/file-utils";
+import {
+  emptyStyleTokensMap,
+  parseStyleTokens,
+  serializeStyleTokens,
+} from "../utils/tokens-utils";
 
 export async function upsertStyleTokens(
   context: PlasmicContext,
@@ -28,9 +33,29 @@ export async function upsertStyleTokens(
   await writeFileContent(
     context,
     context.config.tokens.tokensFilePath,
+    serializeStyleTokens(context.config.tokens.scheme, curStyleMap),
+    { force: true }
+  );
+}
 
-    JSON.stringify(curStyleMap, undefined, 2),
-
+/**
+ * Removes the tokens of the given projects from the tokens file, if any.
+ */
+export async function removeStyleTokens(
+  context: PlasmicContext,
+  projectIds: string[]
+) {
+  if (!fileExists(context, context.config.tokens.tokensFilePath)) {
+    return;
+  }
+  const curStyleMap = await readCurStyleMap(context);
+  curStyleMap.props = curStyleMap.props.filter(
+    (prop) => !projectIds.includes(prop.meta.projectId)
+  );
+  await writeFileContent(
+    context,
+    context.config.tokens.tokensFilePath,
+    serializeStyleTokens(context.config.tokens.scheme, curStyleMap),
     { force: true }
   );
 }
@@ -41,28 +66,20 @@ async function readCurStyleMap(
   const filePath = context.config.tokens.tokensFilePath;
   if (fileExists(context, filePath)) {
     try {
-      return JSON.parse(
+      return parseStyleTokens(
         readFileContent(context, context.config.tokens.tokensFilePath)
       );
     } catch (e) {
-      logger.error(
-        `Error countered reading ${context.config.tokens.tokensFilePath}: ${e}`
+      throw new ConfigError(
+        `Error encountered reading ${context.config.tokens.tokensFilePath}: ${e}`
       );
-      process.exit(1);
     }
   } else {
-    const defaultMap = {
-      props: [],
-      global: {
-        meta: {
-          source: "plasmic.app",
-        },
-      },
-    } as StyleTokensMap;
+    const defaultMap = emptyStyleTokensMap();
     await writeFileContent(
       context,
       context.config.tokens.tokensFilePath,
-      JSON.stringify(defaultMap, undefined, 2),
+      serializeStyleTokens(context.config.tokens.scheme, defaultMap),
       {
         force: false,
       }
@@ -7,15 +7,20 @@ import {
   ChecksumBundle,
   CodeComponentMeta,
   ComponentBundle,
+  PlasmicApi,
   ProjectIdAndToken,
   ProjectMetaBundle,
   StyleConfigResponse,
 } from "../api";
+import { logger } from "../deps";
+import { ArchiveSource, readArchive } from "../utils/archive-utils";
 import { getChecksums } from "../utils/checksum";
+import { filterComponent } from "../utils/component-filter";
 import {
   ComponentUpdateSummary,
   fixAllImportStatements,
   formatAsLocal,
+  formatWithPrettier,
   maybeConvertTsxToJsx,
   mkFixImportContext,
   replaceImports,
@@ -26,13 +31,17 @@ import {
   getOrAddProjectConfig,
   getOrAddProjectLock,
   LOADER_CONFIG_FILE_NAME,
+  LOCK_FILE_NAME,
+  PlasmicConfig,
   PlasmicContext,
   PlasmicLoaderConfig,
+  PlasmicLock,
   updateConfig,
 } from "../utils/config-utils";
-import { HandledError } from "../utils/error";
+import { CliUpgradedError, HandledError } from "../utils/error";
 import {
   assertAllPathsInRootDir,
+  BufferedFsChange,
   defaultResourcePath,
   existsBuffered,
   readFileText,
@@ -52,9 +61,17 @@ import {
   installUpgrade,
   isCliGloballyInstalled,
 } from "../utils/npm-utils";
+import { callPlugins, transformFile } from "../utils/plugin-utils";
+import {
+  isJsonReporter,
+  reportEvent,
+  useJsonReporter,
+} from "../utils/reporter";
 import { checkVersionResolution } from "../utils/resolve-utils";
 import * as semver from "../utils/semver";
+import { saveSnapshot } from "../utils/snapshot-utils";
 import { confirmWithUser } from "../utils/user-utils";
+import { syncBarrels } from "./sync-barrels";
 import {
   ComponentPendingMerge,
   syncProjectComponents,
@@ -66,6 +83,8 @@ import { upsertStyleTokens } from "./sync-styles";
 
 export interface SyncArgs extends CommonArgs {
   projects: readonly string[];
+  components?: readonly string[];
+  excludeComponents?: readonly string[];
   forceOverwrite: boolean;
   newComponentScheme?: "blackbox" | "direct";
   appendJsxOnMissingBase?: boolean;
@@ -78,6 +97,10 @@ export interface SyncArgs extends CommonArgs {
   metadata?: string;
   allFiles?: boolean;
   loaderConfig?: string;
+  dryRun?: boolean;
+  json?: boolean;
+  // Archive made by `plasmic export` to sync from, instead of the server
+  fromArchive?: string;
 }
 
 async function ensureRequiredPackages(context: PlasmicContext, yes?: boolean) {
@@ -113,11 +136,8 @@ async function ensureRequiredPackages(context: PlasmicContext, yes?: boolean) {
       dev: true,
     });
 
-    // Exit so the user can run again with the new cli
-    console.log(
-      chalk.bold(`@plasmicapp/cli has been upgraded; please try again`)
-    );
-    process.exit();
+    // Stop so the user can run again with the new cli
+    throw new CliUpgradedError();
   }
 
   const reactWebVersion = findInstalledVersion(
@@ -155,7 +175,7 @@ function writeLoaderConfig(opts: SyncArgs, config: PlasmicLoaderConfig) {
 
   writeFileText(
     loaderConfigPath,
-    formatAsLocal(JSON.stringify(config), loaderConfigPath)
+    formatWithPrettier(JSON.stringify(config), loaderConfigPath)
   );
 }
 
@@ -167,17 +187,31 @@ function writeLoaderConfig(opts: SyncArgs, config: PlasmicLoaderConfig) {
  * @param opts
  */
 export async function sync(opts: SyncArgs): Promise<void> {
+  if (opts.json) {
+    useJsonReporter();
+  }
+
   // Initially allow for a missing auth. Only require an auth once we need to fetch new or updated API tokens for any
   // projects.
   let context = await getContext(opts, { enableSkipAuth: true });
+  if (opts.fromArchive) {
+    context.api = new PlasmicApi(
+      context.auth,
+      new ArchiveSource(readArchive(opts.fromArchive))
+    );
+  }
 
   const isFirstRun = context.config.projects.length === 0;
 
-  if (!opts.skipUpgradeCheck) {
+  if (!opts.skipUpgradeCheck && !opts.dryRun) {
     await ensureRequiredPackages(context, opts.yes);
   }
 
-  fixFileExtension(context);
+  // In a dry run, renaming files with the wrong extension has to wait until
+  // file system operations are being buffered.
+  if (!opts.dryRun) {
+    fixFileExtension(context);
+  }
   assertAllPathsInRootDir(context);
 
   const loaderConfig = process.env.PLASMIC_LOADER
@@ -220,9 +254,18 @@ export async function sync(opts: SyncArgs): Promise<void> {
     );
   }
 
+  for (const { projectId, versionRange } of projectSyncParams) {
+    if (!semver.validRange(versionRange)) {
+      throw new HandledError(
+        `Invalid version range "${versionRange}" for project ${projectId}. Use "latest", an exact version, or a range like "^1.2.0".`
+      );
+    }
+  }
+
   // If there are any missing projectApiTokens, reload the context, this time requiring auth, so that we can fetch the
   // projectApiTokens from the server (as a user that has permission to do so).
-  if (projectSyncParams.some((p) => !p.projectApiToken)) {
+  // An archive already has the tokens.
+  if (!opts.fromArchive && projectSyncParams.some((p) => !p.projectApiToken)) {
     try {
       context = await getContext(opts);
     } catch (e) {
@@ -259,7 +302,7 @@ export async function sync(opts: SyncArgs): Promise<void> {
     opts
   );
   if (projectsToSync.length <= 0) {
-    console.info(
+    logger.info(
       "Your projects are up-to-date with respect to your specified version ranges. Nothing to sync."
     );
     return;
@@ -281,108 +324,168 @@ export async function sync(opts: SyncArgs): Promise<void> {
 
   context.api.attachProjectIdsAndTokens(projectIdsAndTokens);
 
-  // Perform the actual sync
-  await withBufferedFs(async () => {
-    // Sync in sequence (no parallelism)
-    // going in reverse to get leaves of the dependency tree first
-    for (const projectMeta of projectsToSync) {
-      await syncProject(
-        context,
-        opts,
-        projectIdsAndTokens,
-        projectMeta.projectId,
-        projectMeta.componentIds,
-        projectMeta.version,
-        projectMeta.dependencies,
-        summary,
-        pendingMerge
-      );
-    }
+  await callPlugins(context, "beforeSync", context);
 
-    // Materialize scheme into each component config.
-    context.config.projects.forEach((p) =>
-      p.components.forEach((c) => {
-        if (!c.scheme) {
-          c.scheme = context.config.code.scheme;
-        }
-      })
-    );
+  const configBeforeSync = L.cloneDeep(context.config);
+  const lockBeforeSync = L.cloneDeep(context.lock);
 
-    await syncStyleConfig(
-      context,
-      await context.api.genStyleConfig(context.config.style)
-    );
+  // Perform the actual sync
+  const changes = await withBufferedFs(
+    async () => {
+      if (opts.dryRun) {
+        fixFileExtension(context);
+      }
 
-    // Update project version if specified and successfully synced.
-    if (projectWithVersion.length) {
-      const versionMap: Record<string, string> = {};
-      projectWithVersion.forEach(
-        (p) => (versionMap[p.projectId] = p.versionRange)
-      );
-      context.config.projects.forEach(
-        (p) => (p.version = versionMap[p.projectId] || p.version)
-      );
-    }
+      // Sync in sequence (no parallelism)
+      // going in reverse to get leaves of the dependency tree first
+      for (const projectMeta of projectsToSync) {
+        await syncProject(
+          context,
+          opts,
+          projectIdsAndTokens,
+          projectMeta.projectId,
+          projectMeta.componentIds,
+          projectMeta.version,
+          projectMeta.dependencies,
+          summary,
+          pendingMerge
+        );
+      }
 
-    // Fix imports
-    const fixImportContext = mkFixImportContext(context.config);
-    for (const m of pendingMerge) {
-      const resolvedEditedFile = replaceImports(
-        context,
-        m.editedSkeletonFile,
-        m.skeletonModulePath,
-        fixImportContext,
-        true
+      // Materialize scheme into each component config.
+      context.config.projects.forEach((p) =>
+        p.components.forEach((c) => {
+          if (!c.scheme) {
+            c.scheme = context.config.code.scheme;
+          }
+        })
       );
-      const resolvedNewFile = replaceImports(
+
+      await syncStyleConfig(
         context,
-        m.newSkeletonFile,
-        m.skeletonModulePath,
-        fixImportContext,
-        true
+        await context.api.genStyleConfig(context.config.style)
       );
-      await m.merge(resolvedNewFile, resolvedEditedFile);
-    }
-    // Now we know config.components are all correct, so we can go ahead and fix up all the import statements
-    await fixAllImportStatements(context, summary);
-
-    // We don't need to persist codeComponentMeta as it's just used to fix
-    // import statements, so just delete it before writing the new components
-    // config.
-    context.config.projects.forEach((p) => delete p.codeComponents);
-
-    if (process.env.PLASMIC_LOADER) {
-      const rootProjectIds = new Set(projectSyncParams.map((p) => p.projectId));
-      const freshIdsAndTokens = projectIdsAndTokens
-        .filter((p) => rootProjectIds.has(p.projectId))
-        .map((p) => L.pick(p, "projectId", "projectApiToken"));
-
-      const config: PlasmicLoaderConfig = {
-        projects: L.sortBy(
-          L.uniqBy(
-            [...freshIdsAndTokens, ...(loaderConfig?.projects ?? [])],
+
+      // Update project version if specified and successfully synced.
+      if (projectWithVersion.length) {
+        const versionMap: Record<string, string> = {};
+        projectWithVersion.forEach(
+          (p) => (versionMap[p.projectId] = p.versionRange)
+        );
+        context.config.projects.forEach(
+          (p) => (p.version = versionMap[p.projectId] || p.version)
+        );
+      }
+
+      // Fix imports
+      const fixImportContext = mkFixImportContext(context.config);
+      for (const m of pendingMerge) {
+        const resolvedEditedFile = replaceImports(
+          context,
+          m.editedSkeletonFile,
+          m.skeletonModulePath,
+          fixImportContext,
+          true
+        );
+        const resolvedNewFile = replaceImports(
+          context,
+          m.newSkeletonFile,
+          m.skeletonModulePath,
+          fixImportContext,
+          true
+        );
+        await m.merge(resolvedNewFile, resolvedEditedFile);
+      }
+      // Now we know config.components are all correct, so we can go ahead and fix up all the import statements
+      await fixAllImportStatements(context, summary);
+
+      if (context.config.code.barrels) {
+        await syncBarrels(context);
+      }
+
+      // We don't need to persist codeComponentMeta as it's just used to fix
+      // import statements, so just delete it before writing the new components
+      // config.
+      context.config.projects.forEach((p) => delete p.codeComponents);
+
+      if (process.env.PLASMIC_LOADER) {
+        const rootProjectIds = new Set(
+          projectSyncParams.map((p) => p.projectId)
+        );
+        const freshIdsAndTokens = projectIdsAndTokens
+          .filter((p) => rootProjectIds.has(p.projectId))
+          .map((p) => L.pick(p, "projectId", "projectApiToken"));
+
+        const config: PlasmicLoaderConfig = {
+          projects: L.sortBy(
+            L.uniqBy(
+              [...freshIdsAndTokens, ...(loaderConfig?.projects ?? [])],
+              (p) => p.projectId
+            ),
             (p) => p.projectId
           ),
-          (p) => p.projectId
-        ),
-      };
+        };
+
+        writeLoaderConfig(opts, config);
+      }
 
-      writeLoaderConfig(opts, config);
+      // Write the new ComponentConfigs to disk
+      await updateConfig(context, context.config);
+    },
+    {
+      dryRun: opts.dryRun,
+      beforeWrite: (changes) =>
+        saveSnapshot(
+          context,
+          `sync ${projectsToSync
+            .map((p) => `${p.projectName}@${p.version}`)
+            .join(", ")}`,
+          changes
+        ),
     }
+  );
 
-    // Write the new ComponentConfigs to disk
-    await updateConfig(context, context.config);
+  if (opts.dryRun) {
+    printDryRunPlan(context, changes, configBeforeSync, lockBeforeSync);
+    return;
+  }
+
+  const syncedProjectIds = new Set(projectsToSync.map((p) => p.projectId));
+  const syncedProjects = context.config.projects.filter((p) =>
+    syncedProjectIds.has(p.projectId)
+  );
+  const syncedComponents = L.flatMap(
+    syncedProjects,
+    (p) => p.components
+  ).filter((c) => summary.has(c.id));
+  for (const component of syncedComponents) {
+    await callPlugins(context, "afterComponentSync", component);
+  }
+  await callPlugins(context, "afterSync", {
+    projects: syncedProjects,
+    components: syncedComponents,
   });
 
   // Post-sync commands
   if (!opts.ignorePostSync) {
     for (const cmd of context.config.postSyncCommands || []) {
-      spawnSync(cmd, { shell: true, stdio: "inherit" });
+      const result = spawnSync(cmd, {
+        shell: true,
+        // Keep stdout free for events when reporting in JSON
+        stdio: isJsonReporter()
+          ? ["inherit", process.stderr, "inherit"]
+          : "inherit",
+      });
+      reportEvent({
+        type: "post-sync-command",
+        command: cmd,
+        exitCode: result.status,
+      });
     }
   }
 
   if (isFirstRun) {
-    if (!process.env.QUIET) {
+    if (!process.env.QUIET && !isJsonReporter()) {
       printFirstSyncInfo(context);
     }
   }
@@ -451,11 +554,35 @@ async function syncProject(
     projectIdsAndTokens.find((p) => p.projectId === projectId)
   ).projectApiToken;
 
+  // Only request the components that pass the filters. Components we
+  // haven't synced yet are requested unless excluded by id, and filtered by
+  // name once we get their bundles.
+  const knownNames = new Map(
+    (existingProject?.components || []).map((c) => tuple(c.id, c.name))
+  );
+  const filter = { ...opts, ignore: existingProject?.ignore };
+  const notSynced = new Map<string, "skip" | "ignore">();
+  const requestedComponentIds = componentIds.filter((id) => {
+    const result = filterComponent(filter, id, knownNames.get(id));
+    if (result !== "sync") {
+      notSynced.set(id, result);
+    }
+    return result === "sync";
+  });
+  if (requestedComponentIds.length === 0) {
+    logger.info(
+      `No components of ${
+        existingProject?.projectName ?? projectId
+      } match the component filters; skipping.`
+    );
+    return;
+  }
+
   const existingChecksums = getChecksums(
     context,
     opts,
     projectId,
-    componentIds
+    requestedComponentIds
   );
 
   // Server-side code-gen
@@ -464,14 +591,26 @@ async function syncProject(
     context.config.platform,
     newComponentScheme,
     existingCompScheme,
-    componentIds,
+    requestedComponentIds,
     projectVersion,
     context.config.images,
     context.config.style,
     existingChecksums,
     generateMetadata(context, opts.metadata)
   );
+  projectBundle.components = projectBundle.components.filter((c) => {
+    const result = filterComponent(filter, c.id, c.componentName);
+    if (result !== "sync") {
+      notSynced.set(c.id, result);
+    }
+    return result === "sync";
+  });
 
+  // Stories read the variants from the types of the render modules, which
+  // converting to javascript drops
+  const tsxRenderModules = new Map(
+    projectBundle.components.map((c) => [c.id, c.renderModule])
+  );
   // Convert from TSX => JSX
   if (context.config.code.lang === "js") {
     projectBundle.components.forEach((c) => {
@@ -512,6 +651,9 @@ async function syncProject(
 
   syncCodeComponentsMeta(context, projectId, projectBundle.codeComponentMetas);
 
+  const prevProjectLock = L.cloneDeep(
+    context.lock.projects.find((p) => p.projectId === projectId)
+  );
   await syncProjectConfig(
     context,
     projectBundle.projectConfig,
@@ -523,8 +665,22 @@ async function syncProject(
     !!opts.appendJsxOnMissingBase,
     summary,
     pendingMerge,
-    projectBundle.checksums
+    projectBundle.checksums,
+    new Set(notSynced.keys()),
+    tsxRenderModules
   );
+  if (prevProjectLock?.version && [...notSynced.values()].includes("skip")) {
+    // Some components are still at the previous version, so keep that as
+    // the synced version. The next sync then updates the rest, and the
+    // checksums spare the components synced now. On the first sync of the
+    // project, there's no previous version, so the resolved one is kept.
+    const projectLock = getOrAddProjectLock(context, projectId);
+    projectLock.version = prevProjectLock.version;
+    projectLock.dependencies = prevProjectLock.dependencies;
+    logger.info(
+      `Skipped some components of ${projectBundle.projectConfig.projectName}, so ${LOCK_FILE_NAME} keeps its previous version.`
+    );
+  }
   await upsertStyleTokens(context, projectBundle.usedTokens);
   await syncProjectIconAssets(
     context,
@@ -540,6 +696,12 @@ async function syncProject(
     projectBundle.imageAssets,
     projectBundle.checksums
   );
+  reportEvent({
+    type: "project-synced",
+    projectId,
+    projectName: projectBundle.projectConfig.projectName,
+    version: projectVersion,
+  });
 }
 
 async function syncStyleConfig(
@@ -553,9 +715,19 @@ async function syncStyleConfig(
       response.defaultStyleCssFileName
     );
   context.config.style.defaultStyleCssFilePath = expectedPath;
-  await writeFileContent(context, expectedPath, response.defaultStyleCssRules, {
-    force: true,
-  });
+  await writeFileContent(
+    context,
+    expectedPath,
+    await transformFile(
+      context,
+      "defaultStyleCss",
+      expectedPath,
+      response.defaultStyleCssRules
+    ),
+    {
+      force: true,
+    }
+  );
 }
 
 async function syncProjectConfig(
@@ -569,7 +741,9 @@ async function syncProjectConfig(
   appendJsxOnMissingBase: boolean,
   summary: Map<string, ComponentUpdateSummary>,
   pendingMerge: ComponentPendingMerge[],
-  checksums: ChecksumBundle
+  checksums: ChecksumBundle,
+  skippedComponentIds: Set<string>,
+  tsxRenderModules: Map<string, string>
 ) {
   const defaultCssFilePath = defaultResourcePath(
     context,
@@ -609,6 +783,7 @@ async function syncProjectConfig(
 
   if (projectBundle.cssRules) {
     const formattedCssRules = formatAsLocal(
+      context,
       projectBundle.cssRules,
       projectConfig.cssFilePath
     );
@@ -617,7 +792,12 @@ async function syncProjectConfig(
     await writeFileContent(
       context,
       projectConfig.cssFilePath,
-      formattedCssRules,
+      await transformFile(
+        context,
+        "projectCss",
+        projectConfig.cssFilePath,
+        formattedCssRules
+      ),
       {
         force: !isNew,
       }
@@ -677,7 +857,9 @@ async function syncProjectConfig(
     summary,
     pendingMerge,
     projectLock,
-    checksums
+    checksums,
+    skippedComponentIds,
+    tsxRenderModules
   );
 }
 
@@ -694,3 +876,123 @@ function syncCodeComponentsMeta(
     componentImportPath: meta.importPath,
   }));
 }
+
+/**
+ * Prints the file system changes recorded by a dry run, followed by a summary
+ * of the edits that would be made to plasmic.json and plasmic.lock.
+ */
+function printDryRunPlan(
+  context: PlasmicContext,
+  changes: BufferedFsChange[],
+  prevConfig: PlasmicConfig,
+  prevLock: PlasmicLock
+) {
+  const relPath = (p: string) => path.relative(context.rootDir, p);
+  const isConfigFile = (p: string) =>
+    p === context.configFile || p === context.lockFile;
+
+  logger.info(
+    chalk.bold("\nDry run: nothing has been written. Syncing would:")
+  );
+  const fileChanges = L.sortBy(
+    changes.filter((c) => !isConfigFile(c.path)),
+    (c) => c.path
+  );
+  if (fileChanges.length === 0) {
+    logger.info("  leave all synced files unchanged");
+  }
+  for (const change of fileChanges) {
+    if (change.type === "rename") {
+      logger.info(
+        `  rename    ${relPath(change.path)} -> ${relPath(change.newPath)}`
+      );
+    } else {
+      logger.info(`  ${L.padEnd(change.type, 9)} ${relPath(change.path)}`);
+    }
+  }
+
+  const configEdits = describeConfigEdits(prevConfig, context.config);
+  if (configEdits.length > 0) {
+    logger.info(chalk.bold(`\n${CONFIG_FILE_NAME}:`));
+    configEdits.forEach((edit) => logger.info(`  ${edit}`));
+  }
+  const lockEdits = describeLockEdits(prevLock, context.lock, context.config);
+  if (lockEdits.length > 0) {
+    logger.info(chalk.bold(`\n${path.basename(context.lockFile)}:`));
+    lockEdits.forEach((edit) => logger.info(`  ${edit}`));
+  }
+}
+
+function describeConfigEdits(prev: PlasmicConfig, next: PlasmicConfig) {
+  const edits: string[] = [];
+  const prevProjects = L.keyBy(prev.projects, (p) => p.projectId);
+  for (const project of next.projects) {
+    const prevProject = prevProjects[project.projectId];
+    const name = `'${project.projectName}' (${project.projectId})`;
+    if (!prevProject) {
+      edits.push(`add project ${name} with version "${project.version}"`);
+    } else if (prevProject.version !== project.version) {
+      edits.push(
+        `change version of ${name} from "${prevProject.version}" to "${project.version}"`
+      );
+    }
+    const describeAssets = (
+      kind: string,
+      prevAssets: { id: string; name: string }[],
+      nextAssets: { id: string; name: string }[]
+    ) => {
+      const prevIds = new Set(prevAssets.map((a) => a.id));
+      const nextIds = new Set(nextAssets.map((a) => a.id));
+      nextAssets
+        .filter((a) => !prevIds.has(a.id))
+        .forEach((a) => edits.push(`add ${kind} ${a.name} to ${name}`));
+      prevAssets
+        .filter((a) => !nextIds.has(a.id))
+        .forEach((a) => edits.push(`remove ${kind} ${a.name} from ${name}`));
+    };
+    describeAssets(
+      "component",
+      prevProject?.components ?? [],
+      project.components
+    );
+    describeAssets("icon", prevProject?.icons ?? [], project.icons);
+    describeAssets("image", prevProject?.images ?? [], project.images);
+  }
+
+  const prevGroups = new Set(
+    prev.globalVariants.variantGroups.map((g) => g.id)
+  );
+  const nextGroups = new Set(
+    next.globalVariants.variantGroups.map((g) => g.id)
+  );
+  next.globalVariants.variantGroups
+    .filter((g) => !prevGroups.has(g.id))
+    .forEach((g) => edits.push(`add global variant group ${g.name}`));
+  prev.globalVariants.variantGroups
+    .filter((g) => !nextGroups.has(g.id))
+    .forEach((g) => edits.push(`remove global variant group ${g.name}`));
+  return edits;
+}
+
+function describeLockEdits(
+  prev: PlasmicLock,
+  next: PlasmicLock,
+  config: PlasmicConfig
+) {
+  const edits: string[] = [];
+  const prevLocks = L.keyBy(prev.projects, (p) => p.projectId);
+  for (const projectLock of next.projects) {
+    const prevLock = prevLocks[projectLock.projectId];
+    const projectName =
+      config.projects.find((p) => p.projectId === projectLock.projectId)
+        ?.projectName ?? projectLock.projectId;
+    if (!prevLock || !prevLock.version) {
+      edits.push(`lock '${projectName}' at ${projectLock.version}`);
+    } else if (prevLock.version !== projectLock.version) {
+      edits.push(
+        `update '${projectName}' from ${prevLock.version} to ${projectLock.version}`
+      );
+    }
+  }
+  return edits;
+}
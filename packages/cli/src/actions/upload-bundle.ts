@@ -1,14 +1,22 @@
 import pako from "pako";
+import path from "upath";
 import { CommonArgs } from "..";
+import { logger } from "../deps";
+import { buildBundle } from "../utils/bundle-utils";
+import { HandledError } from "../utils/error";
 import { readFileText } from "../utils/file-utils";
 import { getContext } from "../utils/get-context";
 
 export interface UploadBundleArgs extends CommonArgs {
   project: string;
-  bundleName: string;
-  bundleJsFile: string;
+  bundleName?: string;
+  // Either an entry file to bundle, or a prebuilt bundle with its css files
+  // and metadata
+  entry?: string;
+  externals: readonly string[];
+  bundleJsFile?: string;
   cssFiles: readonly string[];
-  metaJsonFile: string;
+  metaJsonFile?: string;
   genModulePath?: string;
   genCssPaths: string[];
   pkgVersion?: string;
@@ -20,19 +28,72 @@ export interface UploadBundleArgs extends CommonArgs {
 export async function uploadJsBundle(opts: UploadBundleArgs) {
   const context = await getContext(opts);
   const api = context.api;
+
+  let bundle: {
+    bundleName: string;
+    js: string;
+    css: string[];
+    metaJson: string;
+    genModulePath?: string;
+    genCssPaths: string[];
+    themeModule?: string;
+  };
+  if (opts.entry) {
+    const built = await buildBundle(context.rootDir, opts.entry, {
+      externals: opts.externals,
+      themeProviderWrapper: opts.themeProviderWrapper,
+    });
+    if (built.registrations.length === 0) {
+      throw new HandledError(
+        `No components are registered with registerComponent() in ${opts.entry} or the modules it imports.`
+      );
+    }
+    logger.info(`Bundled ${built.registrations.map((r) => r.name).join(", ")}`);
+    bundle = {
+      bundleName:
+        opts.bundleName ?? path.basename(opts.entry, path.extname(opts.entry)),
+      js: built.js,
+      css: built.css,
+      metaJson: JSON.stringify(built.registrations),
+      genModulePath: opts.genModulePath ?? built.genModulePath,
+      genCssPaths:
+        opts.genCssPaths.length > 0 ? opts.genCssPaths : built.genCssPaths,
+      themeModule: opts.themeModuleFile
+        ? readFileText(opts.themeModuleFile)
+        : built.themeModule,
+    };
+  } else {
+    if (!opts.bundleName || !opts.bundleJsFile || !opts.metaJsonFile) {
+      throw new HandledError(
+        "Please specify either --entry, or --bundleName, --bundleJsFile and --metaJsonFile."
+      );
+    }
+    bundle = {
+      bundleName: opts.bundleName,
+      js: readFileText(opts.bundleJsFile),
+      css: opts.cssFiles.map((f) => readFileText(f)),
+      metaJson: readFileText(opts.metaJsonFile),
+      genModulePath: opts.genModulePath,
+      genCssPaths: opts.genCssPaths,
+      themeModule: opts.themeModuleFile
+        ? readFileText(opts.themeModuleFile)
+        : undefined,
+    };
+  }
+
   await api.uploadBundle(
     opts.project,
-    opts.bundleName,
-    pako.deflate(readFileText(opts.bundleJsFile), { to: "string" }),
-    opts.cssFiles.map((f) => pako.deflate(readFileText(f), { to: "string" })),
-    pako.deflate(readFileText(opts.metaJsonFile), { to: "string" }),
-    opts.genModulePath,
-    opts.genCssPaths,
+    bundle.bundleName,
+    pako.deflate(bundle.js, { to: "string" }),
+    bundle.css.map((css) => pako.deflate(css, { to: "string" })),
+    pako.deflate(bundle.metaJson, { to: "string" }),
+    bundle.genModulePath,
+    bundle.genCssPaths,
     opts.pkgVersion,
     opts.extraPropMetaJsonFile
       ? readFileText(opts.extraPropMetaJsonFile)
       : undefined,
     opts.themeProviderWrapper,
-    opts.themeModuleFile ? readFileText(opts.themeModuleFile) : undefined
+    bundle.themeModule
   );
 }
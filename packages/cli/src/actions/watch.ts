@@ -2,9 +2,11 @@ import L from "lodash";
 import moment from "moment";
 import { CommonArgs } from "..";
 import { logger } from "../deps";
+import { ApiError, HandledError } from "../utils/error";
 import { getContext } from "../utils/get-context";
+import { reportEvent, useJsonReporter } from "../utils/reporter";
 import * as semver from "../utils/semver";
-import { sync } from "./sync";
+import { sync, SyncArgs } from "./sync";
 
 export interface WatchArgs extends CommonArgs {
   projects: readonly string[];
@@ -16,8 +18,130 @@ export interface WatchArgs extends CommonArgs {
   nonRecursive?: boolean;
   skipUpgradeCheck?: boolean;
   metadata?: string;
+  json?: boolean;
 }
+
+// How long to wait for more updates before syncing
+const DEBOUNCE_MS = 1000;
+// Delays before retrying a failed sync or reconnecting
+const RETRY_MIN_MS = 2000;
+const RETRY_MAX_MS = 60000;
+
+const timestamp = () => `[${moment().format("HH:mm:ss")}]`;
+
+/**
+ * How long to wait before trying again after `failures` consecutive failures.
+ */
+function backoffDelay(failures: number) {
+  return Math.min(RETRY_MIN_MS * 2 ** (failures - 1), RETRY_MAX_MS);
+}
+
+/**
+ * Runs one sync at a time for the projects that have been updated. Updates
+ * that arrive in quick succession, or while a sync is running, are
+ * coalesced, so that each project has at most one pending sync.
+ */
+export class SyncQueue {
+  // projectId => latest revision, or undefined if not known
+  private pending = new Map<string, number | undefined>();
+  private timer: NodeJS.Timeout | undefined;
+  private running = false;
+  private failures = 0;
+  readonly health: { lastSyncedAt?: string; lastError?: string } = {};
+
+  constructor(private syncOpts: SyncArgs, private onChange: () => void) {}
+
+  get pendingProjectIds() {
+    return [...this.pending.keys()];
+  }
+
+  get syncing() {
+    return this.running;
+  }
+
+  schedule(projectId: string, revision?: number) {
+    const known = this.pending.get(projectId);
+    this.pending.set(
+      projectId,
+      revision === undefined || known === undefined
+        ? revision ?? known
+        : Math.max(known, revision)
+    );
+    this.flushAfter(DEBOUNCE_MS);
+    this.onChange();
+  }
+
+  private flushAfter(ms: number) {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.flush();
+    }, ms);
+  }
+
+  private async flush() {
+    if (this.running || this.pending.size === 0) {
+      // A running sync flushes again when it's done
+      return;
+    }
+    const batch = this.pending;
+    this.pending = new Map();
+    this.running = true;
+    this.onChange();
+    try {
+      await sync({ ...this.syncOpts, projects: [...batch.keys()] });
+      this.failures = 0;
+      this.health.lastSyncedAt = new Date().toISOString();
+      this.health.lastError = undefined;
+      for (const [projectId, revision] of batch) {
+        if (revision === undefined) {
+          logger.info(`${timestamp()} Synced project ${projectId}`);
+          continue;
+        }
+        // Note on the 'updated to revision' part: this is parsed by older
+        // versions of the loader package to know that we finished updating
+        // the components. Newer versions listen for the revision-updated
+        // event.
+        logger.info(
+          `${timestamp()} Project ${projectId} updated to revision ${revision}`
+        );
+        reportEvent({ type: "revision-updated", projectId, revision });
+      }
+    } catch (e) {
+      this.failures++;
+      this.health.lastError = e.message;
+      const delay = backoffDelay(this.failures);
+      logger.error(
+        `${timestamp()} Failed to sync ${[...batch.keys()].join(", ")}: ${
+          e.message
+        }. Retrying in ${delay / 1000}s.`
+      );
+      reportEvent({ type: "error", message: e.message });
+      // Put the batch back, without losing updates that came in meanwhile
+      for (const [projectId, revision] of batch) {
+        if (!this.pending.has(projectId)) {
+          this.pending.set(projectId, revision);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+    if (this.pending.size > 0) {
+      this.flushAfter(
+        this.failures > 0 ? backoffDelay(this.failures) : DEBOUNCE_MS
+      );
+    }
+    this.onChange();
+  }
+}
+
 export async function watchProjects(opts: WatchArgs) {
+  if (opts.json) {
+    useJsonReporter();
+  }
+
   // Perform a sync before watch.
   const syncOpts = {
     ...opts,
@@ -30,7 +154,6 @@ export async function watchProjects(opts: WatchArgs) {
   const context = await getContext(opts);
   const config = context.config;
   const socket = context.api.connectSocket();
-  const promise = new Promise((resolve) => {});
   const projectIds = L.uniq(
     opts.projects.length > 0
       ? opts.projects
@@ -53,12 +176,29 @@ export async function watchProjects(opts: WatchArgs) {
   }
 
   if (latestProjects.length === 0) {
-    logger.error(
+    throw new HandledError(
       "Don't know which projects to sync; please specify via --projects"
     );
-    process.exit(1);
   }
 
+  let connected = false;
+  let connectedAt = 0;
+  let everConnected = false;
+  let reconnectAttempt = 0;
+  // Consecutive times the server closed the connection soon after it opened
+  let serverDisconnects = 0;
+  const reportHealth = () =>
+    reportEvent({
+      type: "watch-health",
+      connected,
+      reconnectAttempt,
+      syncing: queue.syncing,
+      pendingProjectIds: queue.pendingProjectIds,
+      lastSyncedAt: queue.health.lastSyncedAt,
+      lastError: queue.health.lastError,
+    });
+  const queue = new SyncQueue(syncOpts, reportHealth);
+
   socket.on("initServerInfo", () => {
     // upon connection, subscribe to changes for argument projects
     socket.emit("subscribe", {
@@ -66,22 +206,51 @@ export async function watchProjects(opts: WatchArgs) {
       projectIds: latestProjects,
     });
   });
-  socket.on("error", (data: any) => {
-    logger.error(data);
-    process.exit(1);
+  socket.on("connect", () => {
+    connected = true;
+    connectedAt = Date.now();
+    reconnectAttempt = 0;
+    if (everConnected) {
+      // We may have missed updates while disconnected
+      logger.info(`${timestamp()} Reconnected to Plasmic; catching up`);
+      latestProjects.forEach((projectId) => queue.schedule(projectId));
+    }
+    everConnected = true;
+    reportHealth();
   });
-  socket.on("update", async (data: any) => {
-    // Just run syncProjects() for now when any project has been updated
-    // Note on the 'updated to revision' part: this is parsed by the
-    // loader package to know that we finished updating the components.
-    await sync(syncOpts);
-    logger.info(
-      `[${moment().format("HH:mm:ss")}] Project ${
-        data.projectId
-      } updated to revision ${data.revisionNum}`
-    );
+  socket.on("disconnect", (reason: string) => {
+    connected = false;
+    logger.warn(`${timestamp()} Disconnected from Plasmic (${reason})`);
+    if (reason === "io server disconnect") {
+      // The server closed the connection, so socket.io won't reconnect by
+      // itself. Back off as for failed syncs, in case the server keeps
+      // closing it.
+      serverDisconnects =
+        Date.now() - connectedAt < RETRY_MAX_MS ? serverDisconnects + 1 : 1;
+      reconnectAttempt = serverDisconnects;
+      const delay = backoffDelay(serverDisconnects);
+      logger.info(`${timestamp()} Reconnecting to Plasmic in ${delay / 1000}s`);
+      setTimeout(() => socket.connect(), delay);
+    }
+    reportHealth();
+  });
+  socket.io.on("reconnect_attempt", (attempt: number) => {
+    reconnectAttempt = attempt;
+    logger.info(`${timestamp()} Reconnecting to Plasmic (attempt ${attempt})`);
+    reportHealth();
+  });
+  socket.on("update", (data: any) => {
+    queue.schedule(data.projectId, data.revisionNum);
   });
 
   logger.info(`Watching projects ${latestProjects} ...`);
-  await promise;
+  // Watches until the socket fails
+  await new Promise((resolve, reject) => {
+    socket.on("error", (data: any) => {
+      socket.close();
+      reject(
+        new ApiError(`Lost connection to Plasmic: ${data?.message ?? data}`)
+      );
+    });
+  });
 }
@@ -1,8 +1,18 @@
 import { ProjectSyncMetadataModel } from "@plasmicapp/code-merger";
 import axios, { AxiosError } from "axios";
+import http from "http";
 import socketio from "socket.io-client";
 import { logger } from "./deps";
 import { AuthConfig, ImagesConfig, StyleConfig } from "./utils/config-utils";
+import { ApiError, HandledError } from "./utils/error";
+import {
+  classifyError,
+  getHttpSettings,
+  isRetryable,
+  makeAgent,
+  makeRequestConfig,
+  retryDelay,
+} from "./utils/http-utils";
 
 export class AppServerError extends Error {
   constructor(message: string) {
@@ -148,8 +158,36 @@ export interface ProjectIdAndToken {
   projectApiToken: string;
 }
 
+/**
+ * Where PlasmicApi sends its requests. This is the Plasmic server, unless
+ * syncing from an archive made by `plasmic export`.
+ */
+export interface PlasmicApiSource {
+  post(
+    url: string,
+    data: any,
+    headers: Record<string, string>
+  ): Promise<{ data: any }>;
+}
+
+/**
+ * In Node, socket.io-client takes an http.Agent, though its types don't say
+ * so.
+ */
+interface NodeSocketOpts extends Omit<SocketIOClient.ConnectOpts, "agent"> {
+  agent?: http.Agent;
+}
+
+const serverSource: PlasmicApiSource = {
+  post: (url, data, headers) =>
+    axios.post(url, data, { headers, ...makeRequestConfig(url) }),
+};
+
 export class PlasmicApi {
-  constructor(private auth: AuthConfig) {}
+  constructor(
+    private auth: AuthConfig,
+    private source: PlasmicApiSource = serverSource
+  ) {}
 
   async genStyleConfig(styleOpts?: StyleConfig): Promise<StyleConfigResponse> {
     const result = await this.post(
@@ -189,9 +227,10 @@ export class PlasmicApi {
   }
 
   async getCurrentUser() {
-    return await axios.get(`${this.auth.host}/api/v1/auth/self`, {
-      headers: this.makeHeaders(),
-    });
+    const url = `${this.auth.host}/api/v1/auth/self`;
+    return await this.send(url, () =>
+      axios.get(url, { headers: this.makeHeaders(), ...makeRequestConfig(url) })
+    );
   }
 
   async requiredPackages(): Promise<RequiredPackages> {
@@ -270,7 +309,9 @@ export class PlasmicApi {
         extraPropMetaJson,
         themeProviderWrapper,
         themeModule,
-      }
+      },
+      // Uploading twice would make two bundles
+      { idempotent: false }
     );
     return result.data as StyleTokensMap;
   }
@@ -306,48 +347,97 @@ export class PlasmicApi {
     const result = await this.post(
       `${this.auth.host}/api/v1/projects/${projectId}/code/project-sync-metadata`,
       { revision },
-      rethrowAppError
+      { rethrowAppError }
     );
     return ProjectSyncMetadataModel.fromJson(result.data);
   }
 
   connectSocket(): SocketIOClient.Socket {
-    const socket = socketio.connect(this.auth.host, {
+    const opts: NodeSocketOpts = {
       path: `/api/v1/socket`,
+      // Keep retrying, backing off up to 30s between attempts
+      reconnection: true,
+      reconnectionAttempts: Infinity,
+      reconnectionDelay: 1000,
+      reconnectionDelayMax: 30000,
+      randomizationFactor: 0.5,
+      agent: makeAgent(this.auth.host),
       transportOptions: {
         polling: {
           extraHeaders: this.makeHeaders(),
         },
       },
-    });
-    return socket;
+    };
+    return socketio.connect(this.auth.host, opts as SocketIOClient.ConnectOpts);
   }
 
   // If rethrowAppError is true, we will throw an exception with the error
-  // message
-  private async post(url: string, data?: any, rethrowAppError?: boolean) {
-    try {
-      return await axios.post(
-        url,
-        { projectIdsAndTokens: this.projectIdsAndTokens, ...data },
-        {
-          headers: this.makeHeaders(),
+  // message. Unless the request isn't idempotent, it is retried when the
+  // server can't be reached or is overloaded.
+  private async post(
+    url: string,
+    data?: any,
+    opts: { rethrowAppError?: boolean; idempotent?: boolean } = {}
+  ) {
+    return await this.send(
+      url,
+      () =>
+        this.source.post(
+          url,
+          { projectIdsAndTokens: this.projectIdsAndTokens, ...data },
+          this.makeHeaders()
+        ),
+      opts
+    );
+  }
+
+  private async send<T>(
+    url: string,
+    request: () => Promise<T>,
+    opts: { rethrowAppError?: boolean; idempotent?: boolean } = {}
+  ): Promise<T> {
+    const settings = getHttpSettings();
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request();
+      } catch (e) {
+        if (e instanceof HandledError || !e.isAxiosError) {
+          throw e;
+        }
+        const error = e as AxiosError;
+        if (
+          opts.idempotent !== false &&
+          attempt < settings.retries &&
+          isRetryable(error)
+        ) {
+          const delay = retryDelay(settings, attempt);
+          logger.warn(
+            `Request to ${new URL(url).pathname} failed (${
+              error.message
+            }); retrying in ${delay / 1000}s`
+          );
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          continue;
         }
-      );
-    } catch (e) {
-      const error = e as AxiosError;
-      const errorMsg = this.makeErrorMessage(error);
+        const reason = classifyError(error);
+        if (reason === "network") {
+          throw new ApiError(
+            `Cannot reach ${this.auth.host}: ${error.message}. If you connect through a proxy, set HTTPS_PROXY; to allow slower requests, set PLASMIC_API_TIMEOUT.`,
+            reason
+          );
+        }
+        const errorMsg = this.makeErrorMessage(error);
 
-      if (rethrowAppError) {
-        throw new AppServerError(errorMsg);
-      }
+        if (opts.rethrowAppError) {
+          throw new AppServerError(errorMsg);
+        }
 
-      if (!errorMsg) {
-        throw e;
+        throw new ApiError(
+          errorMsg ?? error.message,
+          reason,
+          error.response?.status
+        );
       }
-
-      logger.error(errorMsg);
-      process.exit(1);
     }
   }
 
@@ -1,17 +1,59 @@
 import winston from "winston";
+import Transport from "winston-transport";
+
+function makeConsoleTransport(stderrLevels: string[] = []) {
+  return new winston.transports.Console({
+    format: winston.format.printf(
+      (info) => `${info.message}`
+      //info => `${moment().format("HH:mm:ss")}:${info.level}\t${info.message}`
+    ),
+    stderrLevels,
+  });
+}
 
 export const logger = winston.createLogger({
   level: "info",
   format: winston.format.json(),
   defaultMeta: {},
   transports: [
-    new winston.transports.Console({
-      format: winston.format.printf(
-        (info) => `${info.message}`
-        //info => `${moment().format("HH:mm:ss")}:${info.level}\t${info.message}`
-      ),
-    }),
+    makeConsoleTransport(),
     //new winston.transports.File({ filename: "error.log", level: "error" }),
     //new winston.transports.File({ filename: "combined.log", level: "info" }),
   ],
 });
+
+/**
+ * Sends all log output to stderr, leaving stdout for machine-readable output.
+ */
+export function logToStderr() {
+  logger.clear().add(makeConsoleTransport(Object.keys(logger.levels)));
+}
+
+/**
+ * Where log output can be sent instead of the console.
+ */
+export interface CliLogger {
+  info(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+}
+
+class CliLoggerTransport extends Transport {
+  constructor(private cliLogger: CliLogger) {
+    super();
+  }
+
+  log(info: any, next: () => void) {
+    const level: keyof CliLogger =
+      info.level === "error" || info.level === "warn" ? info.level : "info";
+    this.cliLogger[level](`${info.message}`);
+    next();
+  }
+}
+
+/**
+ * Sends all log output to the given logger instead of the console.
+ */
+export function setLogger(cliLogger: CliLogger) {
+  logger.clear().add(new CliLoggerTransport(cliLogger));
+}
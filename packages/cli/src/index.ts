@@ -4,14 +4,25 @@ import semver from "semver";
 import updateNotifier from "update-notifier";
 import yargs from "yargs";
 import * as auth from "./actions/auth";
+import { changelog, ChangelogArgs } from "./actions/changelog";
+import { convert, ConvertArgs } from "./actions/convert";
+import { devServer, DevServerArgs } from "./actions/dev-server";
+import { diff, DiffArgs } from "./actions/diff";
+import { exportArchive, ExportArgs } from "./actions/export";
 import { fixImports, FixImportsArgs } from "./actions/fix-imports";
 import { getYargsOption, InitArgs, initPlasmic } from "./actions/init";
+import { move, MoveArgs } from "./actions/move";
+import { outdated, OutdatedArgs } from "./actions/outdated";
+import { remove, RemoveArgs } from "./actions/remove";
+import { rollback, RollbackArgs } from "./actions/rollback";
+import { status, StatusArgs } from "./actions/status";
 import { sync, SyncArgs } from "./actions/sync";
 import { UploadBundleArgs, uploadJsBundle } from "./actions/upload-bundle";
 import { WatchArgs, watchProjects } from "./actions/watch";
 import { logger } from "./deps";
 import { LOADER_CONFIG_FILE_NAME } from "./utils/config-utils";
-import { HandledError } from "./utils/error";
+import { CliUpgradedError, HandledError } from "./utils/error";
+import { reportEvent } from "./utils/reporter";
 
 if (process.env.DEBUG_CHDIR) {
   process.chdir(process.env.DEBUG_CHDIR);
@@ -19,7 +30,13 @@ if (process.env.DEBUG_CHDIR) {
 
 const handleError = <T>(p: Promise<T>) => {
   return p.catch((e) => {
+    if (e instanceof CliUpgradedError) {
+      // Not a failure; the command just needs to be run again
+      console.log(chalk.bold(e.message));
+      process.exit(0);
+    }
     console.error(chalk.bold(chalk.redBright("\nPlasmic error: ")) + e.message);
+    reportEvent({ type: "error", message: e.message });
     if (e instanceof HandledError) {
       process.exit(1);
     } else {
@@ -109,7 +126,19 @@ yargs
   .command<SyncArgs>(
     "sync",
     "Syncs designs from Plasmic to local files.",
-    (yags) => configureSyncArgs(yags),
+    (yags) =>
+      configureSyncArgs(yags)
+        .option("dry-run", {
+          type: "boolean",
+          describe:
+            "Print the files and plasmic.json/plasmic.lock entries that would be changed, without writing anything",
+          default: false,
+        })
+        .option("from-archive", {
+          type: "string",
+          describe:
+            "Sync from an archive made by `plasmic export`, without network access",
+        }),
     (argv) => {
       handleError(sync(argv));
     }
@@ -122,6 +151,177 @@ yargs
       handleError(watchProjects(argv));
     }
   )
+  .command<DiffArgs>(
+    "diff",
+    "Shows how local files differ from the code Plasmic generates for the synced versions.",
+    (yags) =>
+      yags.option("projects", {
+        alias: "p",
+        describe:
+          "One or more projects to diff, separated by comma. Defaults to all synced projects.",
+        type: "array",
+        default: [],
+      }),
+    (argv) => handleError(diff(argv))
+  )
+  .command<StatusArgs>(
+    "status",
+    "Reports whether synced projects, generated files and required packages are up to date.",
+    (yags) =>
+      yags.option("projects", {
+        alias: "p",
+        describe:
+          "One or more projects to check, separated by comma. Defaults to all synced projects.",
+        type: "array",
+        default: [],
+      }),
+    (argv) => handleError(status(argv))
+  )
+  .command<OutdatedArgs>(
+    "outdated",
+    "Lists the synced projects and dependencies that have newer published versions.",
+    (yags) =>
+      yags.option("projects", {
+        alias: "p",
+        describe:
+          "One or more projects to check, separated by comma. Defaults to all synced projects.",
+        type: "array",
+        default: [],
+      }),
+    (argv) => handleError(outdated(argv))
+  )
+  .command<ChangelogArgs>(
+    "changelog",
+    "Lists the components, icons, images, global variants and tokens that changed between two versions of a project.",
+    (yags) =>
+      yags
+        .option("project", {
+          alias: "p",
+          describe: "ID of the project",
+          type: "string",
+          demandOption: true,
+        })
+        .option("from", {
+          describe: "Version to compare from",
+          type: "string",
+          demandOption: true,
+        })
+        .option("to", {
+          describe: "Version to compare to",
+          type: "string",
+          default: "latest",
+        })
+        .option("format", {
+          describe: "Output format",
+          choices: ["markdown", "json"],
+          default: "markdown",
+        }),
+    (argv) => handleError(changelog(argv))
+  )
+  .command<ExportArgs>(
+    "export",
+    "Exports the synced projects at their locked versions into an archive, for syncing without network access.",
+    (yags) =>
+      yags
+        .option("projects", {
+          alias: "p",
+          describe:
+            "One or more projects to export, separated by comma. Defaults to all synced projects.",
+          type: "array",
+          default: [],
+        })
+        .option("output", {
+          alias: "o",
+          describe: "File to write the archive to",
+          type: "string",
+          default: "plasmic-archive.json.gz",
+        }),
+    (argv) => handleError(exportArchive(argv))
+  )
+  .command<DevServerArgs>(
+    "dev-server",
+    "Serves the Plasmic API from local fixtures, for testing sync, watch and the loader without a Plasmic account.",
+    (yags) =>
+      yags
+        .option("fixtures", {
+          describe:
+            "Directory of json files, each holding a project or an array of projects",
+          type: "string",
+        })
+        .option("port", {
+          describe: "Port to listen on",
+          type: "number",
+          default: 3003,
+        }),
+    (argv) => handleError(devServer(argv))
+  )
+  .command<RemoveArgs>(
+    "remove",
+    "Removes synced projects, deleting their generated files.",
+    (yags) =>
+      yags.option("projects", {
+        alias: "p",
+        describe: "One or more projects to remove, separated by comma.",
+        type: "array",
+        default: [],
+      }),
+    (argv) => handleError(remove(argv))
+  )
+  .command<MoveArgs>(
+    "move <component> <newPath>",
+    "Moves a component's files, and updates the imports that refer to them.",
+    (yags) =>
+      yags
+        .positional("component", {
+          describe: "Name or ID of the component to move",
+          type: "string",
+        })
+        .positional("newPath", {
+          describe:
+            "New path of the component's skeleton module, or a directory to move its files into; relative to srcDir",
+          type: "string",
+        }),
+    (argv) => handleError(move(argv))
+  )
+  .command<ConvertArgs>(
+    "convert",
+    "Switches a component between the blackbox and direct code schemes.",
+    (yags) =>
+      yags
+        .option("component", {
+          describe: "Name or ID of the component to convert",
+          type: "string",
+          demandOption: true,
+        })
+        .option("to", {
+          describe: "Code scheme to convert the component to",
+          choices: ["blackbox", "direct"],
+          demandOption: true,
+        }),
+    (argv) => handleError(convert(argv))
+  )
+  .command<RollbackArgs>(
+    "rollback",
+    "Restores the files that the last sync changed, along with plasmic.json and plasmic.lock.",
+    (yags) =>
+      yags
+        .option("to", {
+          describe:
+            "ID of a snapshot to roll back to, undoing all the syncs since then",
+          type: "string",
+        })
+        .option("list", {
+          describe: "List the sync snapshots instead, newest first",
+          type: "boolean",
+          default: false,
+        })
+        .option("count", {
+          describe: "How many snapshots to list",
+          type: "number",
+          default: 10,
+        }),
+    (argv) => handleError(rollback(argv))
+  )
   .command<FixImportsArgs>(
     "fix-imports",
     "Fixes import paths after you've moved around Plasmic blackbox files",
@@ -139,9 +339,21 @@ yargs
           type: "string",
         })
         .option("bundleName", {
-          describe: "Name of the bundle",
+          describe:
+            "Name of the bundle. Defaults to the name of the entry file, with --entry.",
           type: "string",
         })
+        .option("entry", {
+          describe:
+            "Entry file to bundle with esbuild, instead of passing a prebuilt bundle. Its modules must register the components with registerComponent().",
+          type: "string",
+        })
+        .option("externals", {
+          describe:
+            "Modules to leave out of the bundle, besides react, react-dom and @plasmicapp/*, with --entry",
+          type: "array",
+          default: [],
+        })
         .option("bundleJsFile", {
           describe: "Path of the bundled Javascript file in AMD format",
           type: "string",
@@ -206,6 +418,19 @@ function configureSyncArgs(
       type: "array",
       default: [],
     })
+    .option("components", {
+      alias: "c",
+      describe:
+        "Only sync the components with these names or ids, separated by comma. Globs like 'Nav*' are allowed.",
+      type: "array",
+      default: [],
+    })
+    .option("exclude-components", {
+      describe:
+        "Do not sync the components with these names or ids, separated by comma. Globs like 'Nav*' are allowed.",
+      type: "array",
+      default: [],
+    })
     .option("force", {
       type: "boolean",
       describe: "Force sync to bypass specified version ranges.",
@@ -259,6 +484,12 @@ function configureSyncArgs(
       describe:
         "Sync all files, including those that haven't changed since last sync",
       default: "",
+    })
+    .option("json", {
+      type: "boolean",
+      describe:
+        "Print machine-readable events as JSON lines to stdout, and all other output to stderr",
+      default: false,
     });
   if (includeQuietOption) {
     args = args.option("quiet", {
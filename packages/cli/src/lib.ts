@@ -0,0 +1,42 @@
+/**
+ * Entry point for using the cli from Node, for example in build scripts:
+ *
+ *   import { sync } from "@plasmicapp/cli";
+ *   await sync({ projects: [], ..., yes: true });
+ *
+ * Unlike the plasmic command, these never exit the process; failures are
+ * thrown as subclasses of HandledError. Nobody is asked anything unless a
+ * prompt handler is set with setPromptHandler, so pass `yes: true` to
+ * accept the defaults.
+ */
+import { nonInteractivePromptHandler, setPromptHandler } from "./utils/prompts";
+
+export { DevServer, startDevServer } from "./actions/dev-server";
+export { exportArchive, ExportArgs } from "./actions/export";
+export { fixImports, FixImportsArgs } from "./actions/fix-imports";
+export { initPlasmic as init, InitArgs } from "./actions/init";
+export { outdated, OutdatedArgs } from "./actions/outdated";
+export { status, StatusArgs } from "./actions/status";
+export { sync, SyncArgs } from "./actions/sync";
+export { CliLogger, setLogger } from "./deps";
+export type { CommonArgs } from "./index";
+export {
+  ApiError,
+  AuthError,
+  CliUpgradedError,
+  ConfigError,
+  HandledError,
+  PromptRequiredError,
+} from "./utils/error";
+export type {
+  PlasmicPlugin,
+  PluginFile,
+  SyncSummary,
+} from "./utils/plugin-utils";
+export {
+  PromptHandler,
+  setPromptHandler,
+  terminalPromptHandler,
+} from "./utils/prompts";
+
+setPromptHandler(nonInteractivePromptHandler);
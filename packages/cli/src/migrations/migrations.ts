@@ -13,7 +13,6 @@
  * The framework will run migrations in sequence, so you are guaranteed that the plasmic.json blob
  * passed into your migration function is valid as of the previous version.
  */
-import chalk from "chalk";
 import L from "lodash";
 import semver from "semver";
 import path from "upath";
@@ -25,7 +24,7 @@ import {
   writeConfig,
   writeLock,
 } from "../utils/config-utils";
-import { HandledError } from "../utils/error";
+import { CliUpgradedError, HandledError } from "../utils/error";
 import { existsBuffered, readFileText } from "../utils/file-utils";
 import {
   getCliVersion,
@@ -99,10 +98,7 @@ export async function runNecessaryMigrations(
     });
 
     if (success) {
-      console.log(
-        chalk.bold("@plasmicapp/cli has been upgraded; please try again!")
-      );
-      process.exit();
+      throw new CliUpgradedError();
     } else {
       throw new HandledError("Error upgrading @plasmicapp/cli");
     }
@@ -0,0 +1,154 @@
+import L from "lodash";
+import pako from "pako";
+import {
+  PlasmicApiSource,
+  ProjectBundle,
+  ProjectVersionMeta,
+  RequiredPackages,
+  StyleConfigResponse,
+  VersionResolution,
+} from "../api";
+import { HandledError } from "./error";
+import { readFileBytes, writeFileText } from "./file-utils";
+import * as semver from "./semver";
+
+/**
+ * An archive made by `plasmic export`, holding everything that syncing the
+ * exported projects at their pinned versions needs from the server.
+ */
+export interface SyncArchive {
+  // Version of the archive format
+  formatVersion: 1;
+  createdAt: string;
+  resolution: VersionResolution;
+  bundles: { projectId: string; version: string; bundle: ProjectBundle }[];
+  styleConfig: StyleConfigResponse;
+  requiredPackages: RequiredPackages;
+  // Merge bases of the direct-scheme components, as ProjectSyncMetadataModel
+  // json
+  syncMetadata: { projectId: string; revision: number; json: string }[];
+}
+
+export const DEFAULT_ARCHIVE_FILE_NAME = "plasmic-archive.json.gz";
+
+export function writeArchive(filePath: string, archive: SyncArchive) {
+  writeFileText(filePath, Buffer.from(pako.gzip(JSON.stringify(archive))));
+}
+
+export function readArchive(filePath: string): SyncArchive {
+  let archive: SyncArchive;
+  try {
+    archive = JSON.parse(
+      pako.ungzip(readFileBytes(filePath), { to: "string" })
+    );
+  } catch (e) {
+    throw new HandledError(`Cannot read the archive ${filePath}: ${e.message}`);
+  }
+  if (archive.formatVersion !== 1) {
+    throw new HandledError(
+      `${filePath} was made by a newer version of plasmic export; please upgrade @plasmicapp/cli.`
+    );
+  }
+  return archive;
+}
+
+/**
+ * Answers the requests of PlasmicApi from an archive, so that syncing needs
+ * no network access. Only what sync asks for is available.
+ */
+export class ArchiveSource implements PlasmicApiSource {
+  constructor(private archive: SyncArchive) {}
+
+  async post(url: string, data: any) {
+    const route = url.substring(url.indexOf("/api/v1/"));
+    if (route === "/api/v1/code/resolve-sync") {
+      return { data: this.resolveSync(data.projects) };
+    }
+    if (route === "/api/v1/code/style-config") {
+      return { data: this.archive.styleConfig };
+    }
+    if (route === "/api/v1/code/required-packages") {
+      return { data: this.archive.requiredPackages };
+    }
+    const m = route.match(
+      /^\/api\/v1\/projects\/([^/]+)\/code\/(components|project-sync-metadata)$/
+    );
+    if (m?.[2] === "components") {
+      return {
+        data: this.projectComponents(
+          m[1],
+          data.version,
+          data.componentIdOrNames
+        ),
+      };
+    }
+    if (m?.[2] === "project-sync-metadata") {
+      const metadata = this.archive.syncMetadata.find(
+        (s) => s.projectId === m[1] && s.revision === data.revision
+      );
+      if (!metadata) {
+        throw new HandledError(
+          `The archive has no merge base for revision ${data.revision} of project ${m[1]}.`
+        );
+      }
+      return { data: metadata.json };
+    }
+    throw new HandledError(
+      `${route} is not available when syncing from an archive.`
+    );
+  }
+
+  private resolveSync(
+    projects: { projectId: string; versionRange: string }[]
+  ): VersionResolution {
+    const archived = [
+      ...this.archive.resolution.projects,
+      ...this.archive.resolution.dependencies,
+    ];
+    const requested = projects.map(
+      ({ projectId, versionRange }): ProjectVersionMeta => {
+        const meta = archived.find((p) => p.projectId === projectId);
+        if (!meta || !semver.satisfies(meta.version, versionRange)) {
+          throw new HandledError(
+            `The archive has no version of project ${projectId} matching "${versionRange}"${
+              meta ? `; it has ${meta.version}` : ""
+            }.`
+          );
+        }
+        return meta;
+      }
+    );
+    return {
+      projects: requested,
+      dependencies: L.uniqBy(archived, (p) => p.projectId).filter(
+        (p) => !requested.includes(p)
+      ),
+      conflicts: [],
+    };
+  }
+
+  private projectComponents(
+    projectId: string,
+    version: string,
+    componentIdOrNames: readonly string[] | undefined
+  ): ProjectBundle {
+    const archived = this.archive.bundles.find(
+      (b) => b.projectId === projectId && b.version === version
+    );
+    if (!archived) {
+      throw new HandledError(
+        `The archive has no version ${version} of project ${projectId}.`
+      );
+    }
+    // Sync modifies the bundle it gets
+    const bundle = L.cloneDeep(archived.bundle);
+    if (componentIdOrNames) {
+      bundle.components = bundle.components.filter(
+        (c) =>
+          componentIdOrNames.includes(c.id) ||
+          componentIdOrNames.includes(c.componentName)
+      );
+    }
+    return bundle;
+  }
+}
@@ -1,5 +1,4 @@
 import fs from "fs";
-import inquirer from "inquirer";
 import os from "os";
 import socketio from "socket.io-client";
 import path from "upath";
@@ -7,7 +6,7 @@ import { v4 as uuidv4 } from "uuid";
 import { PlasmicApi } from "../api";
 import { logger } from "../deps";
 import { CommonArgs } from "../index";
-import { HandledError } from "../utils/error";
+import { ApiError, AuthError } from "../utils/error";
 import {
   AuthConfig,
   AUTH_FILE_NAME,
@@ -22,6 +21,7 @@ import {
   readFileText,
   writeFileContentRaw,
 } from "./file-utils";
+import { getPromptHandler } from "./prompts";
 
 export type AuthData = {
   user: string;
@@ -72,16 +72,15 @@ export function authByPolling(
 }
 
 function authByPrompt(host: string) {
-  const promise = inquirer.prompt([
-    {
-      name: "user",
+  const promise = (async () => {
+    const user = await getPromptHandler().input({
       message: "Your Plasmic user email",
-    },
-    {
-      name: "token",
+    });
+    const token = await getPromptHandler().input({
       message: `Your personal access token (create one at ${host}/self/settings)`,
-    },
-  ]);
+    });
+    return { user, token };
+  })();
 
   const cancel = () => {
     console.log("Cancelling prompt...");
@@ -93,7 +92,7 @@ function authByPrompt(host: string) {
 
 export async function startAuth(opts: CommonArgs & { host: string }) {
   if (opts.yes) {
-    throw new HandledError("Plasmic credentials could not be found.");
+    throw new AuthError("Plasmic credentials could not be found.");
   }
 
   const auth = await new Promise<AuthData>((resolve, reject) => {
@@ -152,7 +151,7 @@ export async function startAuth(opts: CommonArgs & { host: string }) {
 
 export function readAuth(authFile: string) {
   if (!existsBuffered(authFile)) {
-    throw new HandledError(`No Plasmic auth file found at ${authFile}`);
+    throw new AuthError(`No Plasmic auth file found at ${authFile}`);
   }
   try {
     const parsed = JSON.parse(readFileText(authFile)) as AuthConfig;
@@ -215,7 +214,7 @@ export async function getCurrentAuth(authPath?: string) {
     await api.getCurrentUser();
     return auth;
   } catch (e) {
-    if (e.response?.status === 401) {
+    if (e instanceof ApiError && e.status === 401) {
       logger.error(`The current credentials expired or are not valid.`);
       return undefined;
     }
@@ -224,7 +223,7 @@ export async function getCurrentAuth(authPath?: string) {
 }
 
 function failAuth() {
-  throw new HandledError(
+  throw new AuthError(
     `Unable to authenticate Plasmic. Please run 'plasmic auth'.`
   );
 }
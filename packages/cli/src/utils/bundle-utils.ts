@@ -0,0 +1,268 @@
+import * as parser from "@babel/parser";
+import traverse, { NodePath, Scope } from "@babel/traverse";
+import { CallExpression, ImportDeclaration } from "@babel/types";
+import L from "lodash";
+import path from "upath";
+import { HandledError } from "./error";
+import { readFileText, requireLocalModule, stripExtension } from "./file-utils";
+
+// Modules that the host provides, and which stay out of the bundle
+const DEFAULT_EXTERNALS = ["react", "react-dom", "@plasmicapp/*"];
+
+/**
+ * The parts of esbuild's API used here. esbuild is loaded from the project,
+ * since it ships a native binary for each platform.
+ */
+interface Esbuild {
+  build(options: {
+    entryPoints: string[];
+    absWorkingDir: string;
+    bundle: true;
+    write: false;
+    metafile: true;
+    outdir: string;
+    format: "cjs";
+    platform: "browser";
+    minify: boolean;
+    external: string[];
+  }): Promise<EsbuildResult>;
+}
+
+interface EsbuildResult {
+  outputFiles: { path: string; text: string }[];
+  // Paths are relative to absWorkingDir. The imports of an output include
+  // the externals that it requires
+  metafile: {
+    inputs: { [path: string]: unknown };
+    outputs: {
+      [path: string]: { imports: { path: string; external?: boolean }[] };
+    };
+  };
+}
+
+/**
+ * What registerComponent() is called with, as found in the source.
+ */
+export interface ComponentRegistration {
+  name: string;
+  props: { [prop: string]: unknown };
+  importPath: string;
+  isDefaultExport?: boolean;
+  [key: string]: unknown;
+}
+
+export interface BuiltBundle {
+  // AMD module
+  js: string;
+  css: string[];
+  registrations: ComponentRegistration[];
+  // Module path that generated code imports the components from
+  genModulePath: string;
+  // The css files that the bundle imports, as generated code should import
+  // them
+  genCssPaths: string[];
+  // Content of the module exporting the theme provider wrapper, if any
+  themeModule?: string;
+}
+
+/**
+ * Bundles the code components exported by `entry` with esbuild, and finds
+ * the components that its modules register.
+ */
+export async function buildBundle(
+  rootDir: string,
+  entry: string,
+  opts: { externals?: readonly string[]; themeProviderWrapper?: string } = {}
+): Promise<BuiltBundle> {
+  let esbuild: Esbuild;
+  try {
+    esbuild = requireLocalModule(rootDir, "esbuild");
+  } catch (e) {
+    throw new HandledError(
+      `Bundling ${entry} requires esbuild; please install it in your project, e.g. with "npm install --save-dev esbuild".`
+    );
+  }
+  const externals = [...DEFAULT_EXTERNALS, ...(opts.externals ?? [])];
+  let result: EsbuildResult;
+  try {
+    result = await esbuild.build({
+      entryPoints: [entry],
+      absWorkingDir: rootDir,
+      bundle: true,
+      write: false,
+      metafile: true,
+      // Nothing is written there, but esbuild needs it to name the css output
+      outdir: path.join(rootDir, ".plasmic", "bundle"),
+      format: "cjs",
+      platform: "browser",
+      minify: true,
+      external: externals,
+    });
+  } catch (e) {
+    throw new HandledError(`Cannot bundle ${entry}: ${e.message}`);
+  }
+
+  const inputs = Object.keys(result.metafile.inputs);
+  const sources = inputs.filter(
+    (input) =>
+      !input.includes("node_modules/") && /\.(js|jsx|ts|tsx)$/.test(input)
+  );
+  const readSource = (input: string) => readFileText(path.join(rootDir, input));
+  const { themeProviderWrapper } = opts;
+  const themeModulePath = themeProviderWrapper
+    ? sources.find((input) =>
+        exportsName(readSource(input), themeProviderWrapper)
+      )
+    : undefined;
+  if (themeProviderWrapper && !themeModulePath) {
+    throw new HandledError(
+      `None of the modules bundled from ${entry} exports ${themeProviderWrapper}.`
+    );
+  }
+
+  // The externals that the bundle requires, with wildcards resolved
+  const requiredExternals = L.uniq(
+    L.flatMap(Object.values(result.metafile.outputs), (output) =>
+      output.imports.filter((i) => i.external).map((i) => i.path)
+    )
+  ).sort();
+
+  return {
+    js: wrapAsAmd(
+      result.outputFiles.find((f) => f.path.endsWith(".js"))?.text ?? "",
+      requiredExternals
+    ),
+    css: result.outputFiles
+      .filter((f) => f.path.endsWith(".css"))
+      .map((f) => f.text),
+    registrations: L.flatMap(sources, (input) =>
+      findRegistrations(input, readSource(input))
+    ),
+    genModulePath: toImportPath(stripExtension(path.normalize(entry))),
+    genCssPaths: inputs
+      .filter((input) => input.endsWith(".css"))
+      .map((input) =>
+        input.includes("node_modules/")
+          ? input.substring(input.lastIndexOf("node_modules/") + 13)
+          : toImportPath(input)
+      ),
+    themeModule: themeModulePath ? readSource(themeModulePath) : undefined,
+  };
+}
+
+/**
+ * Wraps a CommonJS module into an AMD module, so that the host can provide
+ * the external modules.
+ */
+export function wrapAsAmd(code: string, externals: string[]) {
+  const deps = ["require", "exports", "module", ...externals];
+  return `define(${JSON.stringify(
+    deps
+  )}, function (require, exports, module) {\n${code}\n});\n`;
+}
+
+/**
+ * Finds the registerComponent() calls in a module, whose path is relative to
+ * the root dir. The metadata must be a literal, so that it can be
+ * read without running the code. If it has no importPath, the component is
+ * imported from where the module imports it, or from the module itself.
+ */
+export function findRegistrations(
+  filePath: string,
+  code: string
+): ComponentRegistration[] {
+  if (!code.includes("registerComponent")) {
+    return [];
+  }
+  const file = parser.parse(code, {
+    sourceType: "module",
+    plugins: filePath.endsWith(".ts") ? ["typescript"] : ["jsx", "typescript"],
+  });
+  const registrations: ComponentRegistration[] = [];
+  traverse(file, {
+    CallExpression(p: NodePath<CallExpression>) {
+      const callee = p.node.callee;
+      const calleeName =
+        callee.type === "Identifier"
+          ? callee.name
+          : callee.type === "MemberExpression" &&
+            callee.property.type === "Identifier"
+          ? callee.property.name
+          : undefined;
+      if (calleeName !== "registerComponent") {
+        return;
+      }
+      const location = `${filePath}:${p.node.loc?.start.line}`;
+      const [component, meta] = p.get("arguments");
+      const evaluated = meta?.evaluate();
+      if (!evaluated?.confident || !L.isPlainObject(evaluated.value)) {
+        throw new HandledError(
+          `${location}: the metadata passed to registerComponent() must be an object literal.`
+        );
+      }
+      const registration = evaluated.value as ComponentRegistration;
+      if (!registration.name) {
+        throw new HandledError(
+          `${location}: the metadata passed to registerComponent() has no name.`
+        );
+      }
+      if (!registration.importPath) {
+        Object.assign(
+          registration,
+          findImportOf(
+            filePath,
+            component?.node.type === "Identifier"
+              ? component.node.name
+              : undefined,
+            p.scope,
+            file.program.body
+          )
+        );
+      }
+      registrations.push(registration);
+    },
+  });
+  return registrations;
+}
+
+function findImportOf(
+  filePath: string,
+  name: string | undefined,
+  scope: Scope,
+  body: ReturnType<typeof parser.parse>["program"]["body"]
+) {
+  const binding = name ? scope.getBinding(name) : undefined;
+  if (binding?.kind === "module") {
+    const decl = binding.path.parentPath.node as ImportDeclaration;
+    const source = decl.source.value;
+    return {
+      importPath: source.startsWith(".")
+        ? toImportPath(
+            stripExtension(
+              path.join(path.dirname(filePath), path.normalize(source))
+            )
+          )
+        : source,
+      isDefaultExport: binding.path.node.type === "ImportDefaultSpecifier",
+    };
+  }
+  return {
+    importPath: toImportPath(stripExtension(filePath)),
+    isDefaultExport: body.some(
+      (stmt) =>
+        stmt.type === "ExportDefaultDeclaration" &&
+        stmt.declaration.type === "Identifier" &&
+        stmt.declaration.name === name
+    ),
+  };
+}
+
+function exportsName(code: string, name: string) {
+  return new RegExp(
+    `export\\s+(const|let|var|function|class)\\s+${name}\\b|export\\s*\\{[^}]*\\b${name}\\b[^}]*\\}`
+  ).test(code);
+}
+
+function toImportPath(relPath: string) {
+  return relPath.startsWith(".") ? relPath : `./${relPath}`;
+}
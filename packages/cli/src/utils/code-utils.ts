@@ -17,6 +17,9 @@ import { HandledError } from "../utils/error";
 import {
   CodeComponentConfig,
   ComponentConfig,
+  CONFIG_FILE_NAME,
+  CustomFormat,
+  FormatConfig,
   GlobalVariantGroupConfig,
   IconConfig,
   ImageConfig,
@@ -28,17 +31,88 @@ import {
   existsBuffered,
   makeFilePath,
   readFileText,
+  requireLocalModule,
   stripExtension,
   writeFileContent,
 } from "./file-utils";
-import { assert, flatMap } from "./lang-utils";
+import { assert, ensure, flatMap } from "./lang-utils";
+import { toAliasedPath } from "./tsconfig-utils";
 
+/**
+ * Loads the format function of the module that the format section of
+ * plasmic.json names, if its scheme is "module". `rootDir` is the directory
+ * of plasmic.json.
+ */
+export function loadCustomFormat(
+  rootDir: string,
+  config: FormatConfig | undefined
+): CustomFormat | undefined {
+  if (config?.scheme !== "module") {
+    return undefined;
+  }
+
+  const moduleName = config.module;
+  if (!moduleName) {
+    throw new HandledError(
+      `Please specify format.module in ${CONFIG_FILE_NAME}, as format.scheme is "module".`
+    );
+  }
+  let format: unknown;
+  try {
+    const mod = requireLocalModule(rootDir, moduleName);
+    format = mod.format ?? mod.default?.format;
+  } catch (e) {
+    throw new HandledError(
+      `Cannot load the format module ${moduleName}: ${e.message}`
+    );
+  }
+  if (typeof format !== "function") {
+    throw new HandledError(
+      `The format module ${moduleName} must export a function format(code, filePath).`
+    );
+  }
+  const formatFn = format as (code: string, filePath: string) => unknown;
+  return (code, filePath) => {
+    const result = formatFn(code, filePath);
+    if (typeof result !== "string") {
+      throw new HandledError(
+        `format() in ${moduleName} must return the formatted code as a string, but returned ${typeof result} for ${filePath}.`
+      );
+    }
+    return result;
+  };
+}
+
+/**
+ * Formats a generated file the way plasmic.json says to. `filePath` is where
+ * the file goes, relative to the srcDir.
+ */
 export const formatAsLocal = (
+  context: PlasmicContext,
+  content: string,
+  filePath: string,
+  defaultOpts: Options = {}
+) => {
+  const absPath = makeFilePath(context, filePath);
+  if (context.config.format?.scheme === "none") {
+    return content;
+  } else if (context.customFormat) {
+    return context.customFormat(content, absPath);
+  }
+  return formatWithPrettier(content, absPath, defaultOpts);
+};
+
+/**
+ * Formats with Prettier regardless of plasmic.json, for the files the cli
+ * itself owns, like plasmic.json. The Prettier config is looked up from
+ * `filePath`, which is relative to the working directory.
+ */
+export const formatWithPrettier = (
   content: string,
   filePath: string,
   defaultOpts: Options = {}
 ) => {
-  const opts = resolveConfig.sync(process.cwd()) || defaultOpts;
+  const opts = resolveConfig.sync(path.resolve(filePath)) || defaultOpts;
   opts.filepath = filePath;
 
   // Running Prettier multiple times may actually yield different results!
@@ -49,20 +123,19 @@ export const formatAsLocal = (
 };
 
 const nodeToFormattedCode = (
+  context: PlasmicContext,
   n: Node,
-  unformatted?: boolean,
+  filePath: string,
   commentsToRemove?: Set<string>
 ) => {
   const c = generate(n, {
     retainLines: true,
     shouldPrintComment: (c) => !commentsToRemove || !commentsToRemove.has(c),
   }).code;
-  return unformatted
-    ? c
-    : formatAsLocal(c, "/tmp/x.tsx", {
-        trailingComma: "none",
-        arrowParens: "avoid",
-      });
+  return formatAsLocal(context, c, filePath, {
+    trailingComma: "none",
+    arrowParens: "avoid",
+  });
 };
 
 function findImportSpecifierWithAlias(
@@ -344,7 +417,7 @@ export function replaceImports(
     return code;
   }
 
-  return nodeToFormattedCode(file, !changed, commentsToRemove);
+  return nodeToFormattedCode(context, file, fromPath, commentsToRemove);
 }
 
 function throwMissingReference(
@@ -364,7 +437,7 @@ function throwMissingReference(
   );
 }
 
-function makeImportPath(
+export function makeImportPath(
   context: PlasmicContext,
   fromPath: string,
   toPath: string,
@@ -378,6 +451,14 @@ function makeImportPath(
     );
     if (!result.startsWith(".")) {
       result = `./${result}`;
+    } else if (
+      result.startsWith("../") &&
+      context.config.code.importAliases &&
+      context.pathAliases
+    ) {
+      result =
+        toAliasedPath(context.pathAliases, makeFilePath(context, toPath)) ??
+        result;
     }
   }
   if (stripExt) {
@@ -395,6 +476,60 @@ export function isLocalModulePath(modulePath: string) {
   return !!path.extname(modulePath);
 }
 
+/**
+ * Replaces the module specifiers of the imports, re-exports, dynamic imports
+ * and requires in `code` for which `rewrite` returns a different specifier.
+ * The rest of the code is left untouched, so this is safe to run on files
+ * that are not managed by Plasmic.
+ */
+export function rewriteModuleSpecifiers(
+  filePath: string,
+  code: string,
+  rewrite: (specifier: string) => string | undefined
+) {
+  const file = parser.parse(code, {
+    sourceType: "module",
+    // Type assertions like `<T>x` can't be parsed as JSX
+    plugins: filePath.endsWith(".ts")
+      ? ["typescript", "classProperties"]
+      : ["jsx", "typescript", "classProperties"],
+  });
+  const edits: { start: number; end: number; specifier: string }[] = [];
+  const visit = (node: Node | null | undefined) => {
+    if (node?.type !== "StringLiteral") {
+      return;
+    }
+    const specifier = rewrite(node.value);
+    if (specifier !== undefined && specifier !== node.value) {
+      // Keep the original quotes
+      edits.push({
+        start: ensure(node.start) + 1,
+        end: ensure(node.end) - 1,
+        specifier,
+      });
+    }
+  };
+  traverse(file, {
+    ImportDeclaration: (p) => visit(p.node.source),
+    ExportNamedDeclaration: (p) => visit(p.node.source),
+    ExportAllDeclaration: (p) => visit(p.node.source),
+    CallExpression: (p) => {
+      const callee = p.node.callee;
+      if (
+        callee.type === "Import" ||
+        (callee.type === "Identifier" && callee.name === "require")
+      ) {
+        visit(p.node.arguments[0]);
+      }
+    },
+  });
+  return L.sortBy(edits, (edit) => -edit.start).reduce(
+    (result, edit) =>
+      result.slice(0, edit.start) + edit.specifier + result.slice(edit.end),
+    code
+  );
+}
+
 export interface ComponentUpdateSummary {
   // Whether the skeleton module was modified or created.
   skeletonModuleModified: boolean;
@@ -599,6 +734,10 @@ export const tsxToJsx = (code: string) => {
   return fixPostTranspile(result.outputText);
 };
 
+/**
+ * Converts a tsx module to jsx. The result is formatted with Prettier's
+ * defaults; it's formatted as plasmic.json says when it's written.
+ */
 export function maybeConvertTsxToJsx(fileName: string, content: string) {
   if (fileName.endsWith("tsx")) {
     const jsFileName = stripExtension(fileName) + ".jsx";
@@ -630,12 +769,13 @@ export const formatScript = (code: string) => {
     },
   });
 
-  const withmarkers = nodeToFormattedCode(file, true);
+  const withmarkers = generate(file, { retainLines: true }).code;
   const withNewLines = withmarkers.replace(
     new RegExp(`"${newLineMarker}"`, "g"),
     "\n"
   );
-  return formatAsLocal(withNewLines, "/tmp/x.tsx", {
+  return Prettier.format(withNewLines, {
+    parser: "typescript",
     printWidth: 80,
     tabWidth: 2,
     useTabs: false,
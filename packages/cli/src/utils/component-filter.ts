@@ -0,0 +1,48 @@
+import minimatch from "minimatch";
+
+export interface ComponentFilter {
+  // Names or globs of the components to sync; all of them if empty
+  components?: readonly string[];
+  // Names or globs of components not to sync this time
+  excludeComponents?: readonly string[];
+  // Names or globs of components never to sync, from ProjectConfig.ignore
+  ignore?: readonly string[];
+}
+
+function matchesAny(patterns: readonly string[], id: string, name?: string) {
+  return patterns.some(
+    (pattern) =>
+      minimatch(id, pattern) || (name !== undefined && minimatch(name, pattern))
+  );
+}
+
+/**
+ * Decides whether a component should be synced ("sync"), left alone this
+ * time ("skip"), or is ignored by the project ("ignore"). Patterns match
+ * either the component name or id.
+ *
+ * The name is unknown for components that have never been synced; those are
+ * only checked against the exclusions, as we can't tell yet if they're
+ * included.
+ */
+export function filterComponent(
+  filter: ComponentFilter,
+  id: string,
+  name?: string
+): "sync" | "skip" | "ignore" {
+  if (matchesAny(filter.ignore ?? [], id, name)) {
+    return "ignore";
+  }
+  if (matchesAny(filter.excludeComponents ?? [], id, name)) {
+    return "skip";
+  }
+  if (
+    name !== undefined &&
+    filter.components &&
+    filter.components.length > 0 &&
+    !matchesAny(filter.components, id, name)
+  ) {
+    return "skip";
+  }
+  return "sync";
+}
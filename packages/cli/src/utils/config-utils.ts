@@ -3,13 +3,15 @@ import { DeepPartial } from "utility-types";
 import { PlasmicApi, ProjectIdAndToken } from "../api";
 import { logger } from "../deps";
 import { HandledError } from "../utils/error";
-import { formatAsLocal } from "./code-utils";
+import { formatWithPrettier } from "./code-utils";
 import {
   existsBuffered,
   findFile,
   readFileText,
   writeFileContentRaw,
 } from "./file-utils";
+import { LoadedPlugin } from "./plugin-utils";
+import { PathAliases } from "./tsconfig-utils";
 
 export const DEFAULT_HOST =
   process.env.PLASMIC_DEFAULT_HOST || "https://studio.plasmic.app";
@@ -20,6 +22,8 @@ export const CONFIG_FILE_NAME = "plasmic.json";
 export const LOCK_FILE_NAME = "plasmic.lock";
 export const LOADER_CONFIG_FILE_NAME = "plasmic-loader.json";
 export const CONFIG_SCHEMA_FILE_NAME = "plasmic.schema.json";
+export const MERGE_BASES_DIR_NAME = ".plasmic/merge-bases";
+export const SNAPSHOTS_DIR_NAME = ".plasmic/snapshots";
 
 // Default environment variable names
 export const ENV_AUTH_HOST = "PLASMIC_AUTH_HOST";
@@ -84,14 +88,66 @@ export interface PlasmicConfig {
 
   /** Arbitrary command to run after `plasmic sync` has run; useful for linting and code formatting synced files */
   postSyncCommands?: string[];
+
+  /**
+   * Modules whose hooks are called during `plasmic sync`, like
+   * transformFile({type, path, content}) to change generated files before
+   * they are written. Either paths relative to plasmic.json, like
+   * "./scripts/plasmic-plugin.js", or package names.
+   */
+  plugins?: string[];
+
+  /** Config for formatting generated files; uses Prettier if not specified */
+  format?: FormatConfig;
+}
+
+export interface FormatConfig {
+  /**
+   * How generated files should be formatted. The choices are:
+   * * "prettier" - with Prettier, using the Prettier config of your project if there is one.
+   * * "module" - with the `format(code, filePath)` function exported by `module`, which returns the formatted code.
+   * * "none" - files are written as generated.
+   */
+  scheme: "prettier" | "module" | "none";
+
+  /**
+   * For the "module" scheme, the module to format with. Either a path relative to plasmic.json, like "./scripts/format.js", or a package name.
+   */
+  module?: string;
 }
 
+/**
+ * The format function of the module of the "module" format scheme, which
+ * gets the absolute path of the file to format.
+ */
+export type CustomFormat = (code: string, filePath: string) => string;
+
 export interface CodeConfig {
   /** Language to generate code in */
   lang: "ts" | "js";
 
   /** The default code generation scheme. Each component can override the scheme. */
   scheme: "blackbox" | "direct";
+
+  /**
+   * Whether to import files from other directories through the
+   * compilerOptions.paths aliases of the tsconfig.json or jsconfig.json,
+   * like "@/components/plasmic/...", instead of relative paths.
+   */
+  importAliases?: boolean;
+
+  /**
+   * Whether to write an index module for each project under
+   * defaultPlasmicDir, which re-exports the project's components, icons and
+   * global variant contexts.
+   */
+  barrels?: boolean;
+
+  /**
+   * Whether to write a Storybook story next to the skeleton module of each
+   * component, rendering it with every combination of its variants.
+   */
+  stories?: boolean;
 }
 
 export interface StyleConfig {
@@ -144,7 +200,10 @@ export interface ProjectConfig {
    * A version range for syncing this project. Can be:
    * * "latest" - always syncs down whatever has been saved in the project.
    * * ">0" - always syncs down the latest published version of the project.
-   * * any other semver string you'd like
+   * * any other semver range, like "^2.1.0" or "~2.1.0" - syncs down the
+   *   newest published version in the range.
+   * * an exact version, like "2.1.0"
+   * The version that was actually synced is recorded in plasmic.lock.
    */
   version: string;
   /** File location for the project-wide css styles. Relative to srcDir */
@@ -157,6 +216,8 @@ export interface ProjectConfig {
 
   /** Metadata for each synced component in this project. */
   components: ComponentConfig[];
+  /** Names or globs of components in this project that should never be synced */
+  ignore?: string[];
   /** Metadata for each synced icon in this project */
   icons: IconConfig[];
   /** Metadata for each synced image in this project */
@@ -183,10 +244,35 @@ export function createProjectConfig(base: {
 }
 
 export interface TokensConfig {
-  scheme: "theo";
+  /**
+   * Format of the tokens file:
+   * * "theo": a Theo JSON file
+   * * "css-variables": CSS custom properties declared on :root
+   * * "scss": SCSS variables
+   * * "ts": a TypeScript module exporting a constant per token
+   * * "w3c": a W3C Design Tokens JSON file
+   */
+  scheme: "theo" | "css-variables" | "scss" | "ts" | "w3c";
+  /**
+   * Path of the tokens file, relative to srcDir; defaults to
+   * plasmic-tokens with the extension of the scheme, like
+   * plasmic-tokens.scss
+   */
   tokensFilePath: string;
 }
 
+const TOKENS_FILE_EXTENSIONS: Record<TokensConfig["scheme"], string> = {
+  theo: ".theo.json",
+  "css-variables": ".css",
+  scss: ".scss",
+  ts: ".ts",
+  w3c: ".tokens.json",
+};
+
+export function defaultTokensFilePath(scheme: TokensConfig["scheme"]) {
+  return `plasmic-tokens${TOKENS_FILE_EXTENSIONS[scheme]}`;
+}
+
 /**
  * Describes how to import a Component
  */
@@ -274,7 +360,8 @@ export interface FileLock {
     | "icon"
     | "image"
     | "projectCss"
-    | "globalVariant";
+    | "globalVariant"
+    | "story";
   // The checksum value for the file
   checksum: string;
   // The component id, or the image asset id
@@ -327,6 +414,15 @@ export interface PlasmicContext {
   // The parsed PlasmicLock
   lock: PlasmicLock;
 
+  // The path aliases of the project's tsconfig.json or jsconfig.json
+  pathAliases: PathAliases | undefined;
+
+  // The plugins listed in plasmic.json
+  plugins: LoadedPlugin[];
+
+  // The format function of the "module" format scheme, if it's used
+  customFormat: CustomFormat | undefined;
+
   // The parsed AuthConfig
   auth: AuthConfig;
 
@@ -407,7 +503,11 @@ export function findConfigFile(
 export function fillDefaults(
   config: DeepPartial<PlasmicConfig>
 ): PlasmicConfig {
-  return L.merge({}, DEFAULT_CONFIG, config);
+  const filled = L.merge({}, DEFAULT_CONFIG, config);
+  if (!config.tokens?.tokensFilePath) {
+    filled.tokens.tokensFilePath = defaultTokensFilePath(filled.tokens.scheme);
+  }
+  return filled;
 }
 
 export function readConfig(
@@ -434,7 +534,7 @@ export function readConfig(
 export async function writeConfig(configFile: string, config: PlasmicConfig) {
   await writeFileContentRaw(
     configFile,
-    formatAsLocal(
+    formatWithPrettier(
       JSON.stringify(
         {
           ...config,
@@ -454,7 +554,8 @@ export async function writeConfig(configFile: string, config: PlasmicConfig) {
 export async function writeLock(lockFile: string, lock: PlasmicLock) {
   await writeFileContentRaw(
     lockFile,
-    formatAsLocal(JSON.stringify(lock, undefined, 2), "/tmp/x.json"),
+    // The extension tells Prettier that plasmic.lock holds JSON
+    formatWithPrettier(JSON.stringify(lock, undefined, 2), `${lockFile}.json`),
     {
       force: true,
     }
@@ -473,6 +574,27 @@ export async function updateConfig(
   await writeLock(context.lockFile, context.lock);
 }
 
+/**
+ * Finds the synced component with the given name or id.
+ */
+export function findComponentConfig(context: PlasmicContext, nameOrId: string) {
+  const matches = L.flatMap(
+    context.config.projects,
+    (p) => p.components
+  ).filter((c) => c.id === nameOrId || c.name === nameOrId);
+  if (matches.length === 0) {
+    throw new HandledError(`Component ${nameOrId} has not been synced.`);
+  }
+  if (matches.length > 1) {
+    throw new HandledError(
+      `There are several components named ${nameOrId}; please specify one by id: ${matches
+        .map((c) => c.id)
+        .join(", ")}`
+    );
+  }
+  return matches[0];
+}
+
 export function getOrAddProjectConfig(
   context: PlasmicContext,
   projectId: string,
@@ -3,3 +3,51 @@ export class HandledError extends Error {
     super(msg);
   }
 }
+
+/**
+ * Plasmic credentials are missing or were rejected.
+ */
+export class AuthError extends HandledError {}
+
+/**
+ * plasmic.json, plasmic.lock or the files they point to can't be used.
+ */
+export class ConfigError extends HandledError {}
+
+/**
+ * Why a request to the Plasmic server failed:
+ * - network: the server couldn't be reached, or didn't answer in time
+ * - auth: the credentials were rejected
+ * - not-found: what was asked for doesn't exist
+ * - server: the server failed or rejected the request
+ */
+export type ApiErrorReason = "network" | "auth" | "not-found" | "server";
+
+/**
+ * A request to the Plasmic server failed.
+ */
+export class ApiError extends HandledError {
+  constructor(
+    msg: string,
+    readonly reason: ApiErrorReason = "server",
+    // HTTP status of the response, if the server answered
+    readonly status?: number
+  ) {
+    super(msg);
+  }
+}
+
+/**
+ * @plasmicapp/cli was upgraded, so the command stopped to be run again with
+ * the new version. This isn't a failure: the plasmic command exits with 0.
+ */
+export class CliUpgradedError extends HandledError {
+  constructor() {
+    super("@plasmicapp/cli has been upgraded; please try again.");
+  }
+}
+
+/**
+ * An answer from the user is needed, but there is no one to ask.
+ */
+export class PromptRequiredError extends HandledError {}
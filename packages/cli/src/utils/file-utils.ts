@@ -4,7 +4,7 @@ import L from "lodash";
 import path from "upath";
 import { ProjectMetaBundle } from "../api";
 import { logger } from "../deps";
-import { HandledError } from "../utils/error";
+import { ConfigError, HandledError } from "../utils/error";
 import { isLocalModulePath } from "./code-utils";
 import {
   ComponentConfig,
@@ -16,6 +16,17 @@ import {
 import { ensureString } from "./lang-utils";
 import { confirmWithUser } from "./user-utils";
 
+/**
+ * Loads a module named in plasmic.json, which is either a path relative to
+ * `rootDir`, like "./scripts/format.js", or a package installed there.
+ */
+export function requireLocalModule(rootDir: string, moduleName: string) {
+  return require(require.resolve(
+    moduleName.startsWith(".") ? path.resolve(rootDir, moduleName) : moduleName,
+    { paths: [rootDir] }
+  ));
+}
+
 export function stripExtension(filename: string, removeComposedPath = false) {
   const ext = removeComposedPath
     ? filename.substring(filename.indexOf("."))
@@ -38,12 +49,15 @@ export async function writeFileContentRaw(
       opts.yes
     );
     if (!overwrite) {
-      logger.error(`Cannot write to ${filePath}; file already exists.`);
-      process.exit(1);
+      throw new HandledError(
+        `Cannot write to ${filePath}; file already exists.`
+      );
     }
   }
 
-  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  if (!buffering) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
 
   writeFileText(filePath, content);
 }
@@ -74,6 +88,21 @@ export function defaultPublicResourcePath(
   );
 }
 
+/**
+ * Path of the index module that re-exports a project's components, icons
+ * and global variant contexts, when code.barrels is set.
+ */
+export function defaultBarrelPath(
+  context: PlasmicContext,
+  project: ProjectConfig
+) {
+  return defaultResourcePath(
+    context,
+    project,
+    `index.${context.config.code.lang}`
+  );
+}
+
 export function defaultPagePath(context: PlasmicContext, fileName: string) {
   if (context.config.platform === "nextjs") {
     return path.join(context.config.nextjsConfig?.pagesDir || "", fileName);
@@ -165,8 +194,7 @@ export function findSrcDirPath(
   baseNameToFiles: Record<string, string[]>
 ): string {
   if (!path.isAbsolute(absoluteSrcDir)) {
-    logger.error("Cannot find srcDir. Please check plasmic.json.");
-    process.exit(1);
+    throw new ConfigError("Cannot find srcDir. Please check plasmic.json.");
   }
 
   const fileName = path.basename(expectedPath);
@@ -180,10 +208,9 @@ export function findSrcDirPath(
     logger.info(`\tDetected file moved from ${expectedPath} to ${newPath}`);
     return newPath;
   } else {
-    logger.error(
+    throw new ConfigError(
       `Cannot find expected file at ${expectedPath}, and found multiple possible matching files ${baseNameToFiles[fileName]}.  Please update plasmic.config with the real location for ${fileName}.`
     );
-    process.exit(1);
   }
 }
 
@@ -316,6 +343,32 @@ export async function fixAllFilePaths(context: PlasmicContext) {
   }
 }
 
+/**
+ * Returns the files in defaultPlasmicDir that PlasmicConfig doesn't refer
+ * to, relative to srcDir.
+ */
+export function findOrphanedFiles(context: PlasmicContext): string[] {
+  const srcDir = context.absoluteSrcDir;
+  const referenced = new Set(
+    [
+      ...getAllPaths(context).map(({ bundle, key }) => bundle[key]),
+      ...(context.config.code.barrels
+        ? context.config.projects.map((p) => defaultBarrelPath(context, p))
+        : []),
+    ]
+      .filter((p) => !!p)
+      .map((p) => path.normalize(p))
+  );
+  const plasmicDir = path.join(srcDir, context.config.defaultPlasmicDir);
+  return glob
+    .sync(`${plasmicDir}/**/*`, {
+      nodir: true,
+      ignore: [`${plasmicDir}/**/node_modules/**/*`],
+    })
+    .map((f) => path.relative(srcDir, f))
+    .filter((f) => !referenced.has(f));
+}
+
 /**
  * Throws an error if some file in PlasmicConfig is not inside the root
  * directory (i.e., the directory containing plasmic.json).
@@ -370,6 +423,51 @@ const buffer = new Map<
 >();
 const renamedFiles = new Map<string, string>();
 
+/**
+ * Files of the cli's own state, like merge bases, to write (or delete, if
+ * undefined) once the buffered changes are. They aren't part of the changes.
+ */
+const stateFiles = new Map<string, string | undefined>();
+
+/**
+ * A change to the file system that was recorded in the buffer. Files that are
+ * written with the content they already have on disk are not reported.
+ */
+export type BufferedFsChange =
+  | { type: "create" | "overwrite"; path: string }
+  | { type: "rename"; path: string; newPath: string }
+  | { type: "delete"; path: string };
+
+function describeBufferedChanges(): BufferedFsChange[] {
+  const changes: BufferedFsChange[] = [];
+  for (const [filePath, action] of buffer.entries()) {
+    switch (action.type) {
+      case "create":
+        // eslint-disable-next-line no-restricted-properties
+        if (!fs.existsSync(filePath)) {
+          changes.push({ type: "create", path: filePath });
+        } else if (
+          // eslint-disable-next-line no-restricted-properties
+          !fs.readFileSync(filePath).equals(Buffer.from(action.content))
+        ) {
+          changes.push({ type: "overwrite", path: filePath });
+        }
+        break;
+      case "rename":
+        changes.push({
+          type: "rename",
+          path: filePath,
+          newPath: action.newPath,
+        });
+        break;
+      case "delete":
+        changes.push({ type: "delete", path: filePath });
+        break;
+    }
+  }
+  return changes;
+}
+
 /**
  * This turns on buffering of file writes/reads.
  *
@@ -377,12 +475,30 @@ const renamedFiles = new Map<string, string>();
  * dev server to trip up.
  *
  * This also has the side benefit of making our CLI commands more atomic, in case of failure partway through a sync.
+ *
+ * Returns the changes that were recorded in the buffer. If `opts.dryRun` is
+ * set, the buffer is discarded instead of being written to disk. Otherwise,
+ * `opts.beforeWrite` is called with the changes right before they are
+ * written, while the files still have their previous content.
  */
-export async function withBufferedFs(f: () => Promise<void>) {
+export async function withBufferedFs(
+  f: () => Promise<void>,
+  opts: {
+    dryRun?: boolean;
+    beforeWrite?: (changes: BufferedFsChange[]) => void;
+  } = {}
+): Promise<BufferedFsChange[]> {
   buffering = true;
   buffer.clear();
+  renamedFiles.clear();
+  stateFiles.clear();
   try {
     await f();
+    const changes = describeBufferedChanges();
+    if (opts.dryRun) {
+      return changes;
+    }
+    opts.beforeWrite?.(changes);
     for (const [filePath, action] of buffer.entries()) {
       switch (action.type) {
         case "create":
@@ -401,8 +517,18 @@ export async function withBufferedFs(f: () => Promise<void>) {
           break;
       }
     }
+    for (const [filePath, content] of stateFiles.entries()) {
+      if (content !== undefined) {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        writeFileUnbuffered(filePath, content);
+      } else if (existsUnbuffered(filePath)) {
+        deleteFileUnbuffered(filePath);
+      }
+    }
+    return changes;
   } finally {
     buffering = false;
+    stateFiles.clear();
   }
 }
 
@@ -524,3 +650,77 @@ export function existsBuffered(path: string): boolean {
   // eslint-disable-next-line no-restricted-properties
   return fs.existsSync(path);
 }
+
+/**
+ * The functions below bypass the buffer, for the files that the cli keeps
+ * for itself, like snapshots, which must not be part of a sync's changes.
+ */
+
+export function readFileBytes(path: string): Buffer {
+  // eslint-disable-next-line no-restricted-properties
+  return fs.readFileSync(path);
+}
+
+export function writeFileUnbuffered(path: string, content: string | Buffer) {
+  // eslint-disable-next-line no-restricted-properties
+  fs.writeFileSync(path, content);
+}
+
+export function deleteFileUnbuffered(path: string) {
+  // eslint-disable-next-line no-restricted-properties
+  fs.unlinkSync(path);
+}
+
+export function existsUnbuffered(path: string): boolean {
+  // eslint-disable-next-line no-restricted-properties
+  return fs.existsSync(path);
+}
+
+export function makeDirUnbuffered(path: string) {
+  fs.mkdirSync(path, { recursive: true });
+}
+
+export function copyFileUnbuffered(srcPath: string, destPath: string) {
+  fs.copyFileSync(srcPath, destPath);
+}
+
+export function readDirUnbuffered(path: string): string[] {
+  return fs.readdirSync(path);
+}
+
+/**
+ * Deletes a directory along with everything in it.
+ */
+export function deleteDirUnbuffered(path: string) {
+  fs.rmSync(path, { recursive: true, force: true });
+}
+
+/**
+ * Writes a file of the cli's own state; while buffering, only once the
+ * buffered changes are written.
+ */
+export function writeStateFile(filePath: string, content: string) {
+  if (buffering) {
+    stateFiles.set(filePath, content);
+  } else {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    writeFileUnbuffered(filePath, content);
+  }
+}
+
+export function readStateFile(filePath: string): string | undefined {
+  if (stateFiles.has(filePath)) {
+    return stateFiles.get(filePath);
+  }
+  return existsUnbuffered(filePath)
+    ? readFileBytes(filePath).toString()
+    : undefined;
+}
+
+export function deleteStateFile(filePath: string) {
+  if (buffering) {
+    stateFiles.set(filePath, undefined);
+  } else if (existsUnbuffered(filePath)) {
+    deleteFileUnbuffered(filePath);
+  }
+}
@@ -6,8 +6,9 @@ import { PlasmicApi } from "../api";
 import { logger } from "../deps";
 import { CommonArgs } from "../index";
 import { runNecessaryMigrations } from "../migrations/migrations";
-import { HandledError } from "../utils/error";
+import { AuthError, HandledError } from "../utils/error";
 import { getCurrentAuth } from "./auth-utils";
+import { loadCustomFormat } from "./code-utils";
 import {
   DEFAULT_HOST,
   findConfigFile,
@@ -25,7 +26,9 @@ import {
 } from "./file-utils";
 import { ensure } from "./lang-utils";
 import { getCliVersion } from "./npm-utils";
+import { loadPlugins } from "./plugin-utils";
 import * as prompts from "./prompts";
+import { readPathAliases } from "./tsconfig-utils";
 
 function createPlasmicLock(): PlasmicLock {
   return {
@@ -259,7 +262,15 @@ async function resolveMissingFilesInConfig(
 
 export async function getContext(
   args: CommonArgs,
-  { enableSkipAuth = false }: { enableSkipAuth?: boolean } = {}
+  {
+    enableSkipAuth = false,
+    keepMissingFiles = false,
+  }: {
+    enableSkipAuth?: boolean;
+    // Leave entries for missing files in plasmic.json and plasmic.lock
+    // instead of asking whether to recreate them
+    keepMissingFiles?: boolean;
+  } = {}
 ): Promise<PlasmicContext> {
   const auth = enableSkipAuth
     ? await getCurrentOrDefaultAuth(args)
@@ -311,6 +322,9 @@ export async function getContext(
     configFile,
     lock,
     lockFile,
+    pathAliases: readPathAliases(rootDir),
+    plugins: loadPlugins(rootDir, config.plugins),
+    customFormat: loadCustomFormat(rootDir, config.format),
     rootDir,
     absoluteSrcDir: path.isAbsolute(config.srcDir)
       ? config.srcDir
@@ -320,8 +334,10 @@ export async function getContext(
     cliArgs: args,
   };
 
-  await resolveMissingFilesInConfig(context, config);
-  removeMissingFilesFromLock(context, config, lock);
+  if (!keepMissingFiles) {
+    await resolveMissingFilesInConfig(context, config);
+    removeMissingFilesFromLock(context, config, lock);
+  }
 
   return context;
 }
@@ -355,7 +371,9 @@ async function getOrInitAuth(args: CommonArgs) {
 
   // Could not find the authentication credentials and the user
   // declined to run plasmic init.
-  process.exit(1);
+  throw new AuthError(
+    "No Plasmic credentials found. Please run `plasmic auth`."
+  );
 }
 
 async function maybeRunPlasmicInit(
@@ -364,7 +382,7 @@ async function maybeRunPlasmicInit(
   enableSkipAuth?: boolean
 ): Promise<boolean> {
   if (!process.env.QUIET) {
-    console.log(`No ${missingFile} file found. Initializing plasmic...`);
+    logger.info(`No ${missingFile} file found. Initializing plasmic...`);
   }
 
   await initPlasmic({
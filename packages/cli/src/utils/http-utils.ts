@@ -0,0 +1,190 @@
+import { AxiosError, AxiosRequestConfig } from "axios";
+import http from "http";
+import https from "https";
+import { HttpsProxyAgent } from "https-proxy-agent";
+import tls from "tls";
+import { ApiErrorReason, HandledError } from "./error";
+import { readFileBytes } from "./file-utils";
+
+/**
+ * Settings for requests to the Plasmic server, read from the environment:
+ * - PLASMIC_API_TIMEOUT: how long a request may take, in ms
+ * - PLASMIC_API_RETRIES: how many times to retry a request that failed
+ *   because of the network or an overloaded server
+ * - PLASMIC_API_RETRY_DELAY: the delay before the first retry, in ms; it
+ *   doubles with each retry
+ * - HTTPS_PROXY, HTTP_PROXY and NO_PROXY: the proxy to connect through
+ * - PLASMIC_EXTRA_CA_CERTS: a file of PEM certificates to trust besides the
+ *   default ones, like NODE_EXTRA_CA_CERTS, e.g. for a proxy that intercepts
+ *   TLS
+ */
+export interface HttpSettings {
+  timeout: number;
+  retries: number;
+  retryDelay: number;
+}
+
+// Retries back off up to this delay
+const MAX_RETRY_DELAY_MS = 30000;
+
+export function getHttpSettings(): HttpSettings {
+  return {
+    // Generating the code of a big project can take minutes
+    timeout: envNumber("PLASMIC_API_TIMEOUT", 5 * 60 * 1000),
+    retries: envNumber("PLASMIC_API_RETRIES", 3),
+    retryDelay: envNumber("PLASMIC_API_RETRY_DELAY", 1000),
+  };
+}
+
+function envNumber(name: string, defaultValue: number) {
+  const value = process.env[name];
+  return value && !isNaN(Number(value)) ? Number(value) : defaultValue;
+}
+
+function envVar(name: string) {
+  return process.env[name.toLowerCase()] || process.env[name.toUpperCase()];
+}
+
+export function retryDelay(settings: HttpSettings, attempt: number) {
+  return Math.min(settings.retryDelay * 2 ** attempt, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * The proxy to connect to `url` through, if any, per HTTPS_PROXY or
+ * HTTP_PROXY, unless NO_PROXY lists its host.
+ */
+export function getProxy(url: string) {
+  const { protocol, hostname, port } = new URL(url);
+  const proxy = envVar(protocol === "https:" ? "https_proxy" : "http_proxy");
+  if (!proxy) {
+    return undefined;
+  }
+  const noProxy = (envVar("no_proxy") ?? "")
+    .split(/[\s,]+/)
+    .filter((entry) => entry);
+  const bypass = noProxy.some((entry) => {
+    if (entry === "*") {
+      return true;
+    }
+    const [host, entryPort] = entry.split(":");
+    const domain = host.replace(/^\*?\./, "");
+    return (
+      (!entryPort || entryPort === port) &&
+      (hostname === domain || hostname.endsWith(`.${domain}`))
+    );
+  });
+  return bypass ? undefined : proxy;
+}
+
+function readExtraCaCerts() {
+  const file = process.env.PLASMIC_EXTRA_CA_CERTS;
+  if (!file) {
+    return undefined;
+  }
+  try {
+    return [...tls.rootCertificates, readFileBytes(file).toString()];
+  } catch (e) {
+    throw new HandledError(
+      `Cannot read the certificates in PLASMIC_EXTRA_CA_CERTS: ${e.message}`
+    );
+  }
+}
+
+/**
+ * Trusts the extra certificates for the server behind the proxy, and not just
+ * for the proxy.
+ */
+class TrustingProxyAgent extends HttpsProxyAgent {
+  constructor(proxy: string, private ca: string[]) {
+    super({ ...parseProxy(proxy), ca });
+  }
+
+  callback(...[req, opts]: Parameters<HttpsProxyAgent["callback"]>) {
+    return super.callback(req, { ...opts, ca: this.ca } as typeof opts);
+  }
+}
+
+function parseProxy(proxy: string) {
+  const { protocol, hostname, port, username, password } = new URL(proxy);
+  return {
+    protocol,
+    host: hostname,
+    port,
+    auth: username
+      ? `${decodeURIComponent(username)}:${decodeURIComponent(password)}`
+      : undefined,
+  };
+}
+
+// The agents made so far, by proxy, certificates file and protocol, so that
+// requests reuse their connections
+const agents = new Map<string, http.Agent | undefined>();
+
+/**
+ * The agent to connect to `url` with, if the proxy or the trusted
+ * certificates differ from Node's defaults.
+ */
+export function makeAgent(url: string): http.Agent | undefined {
+  const proxy = getProxy(url);
+  const isHttps = url.startsWith("https:");
+  const key = JSON.stringify([
+    proxy,
+    process.env.PLASMIC_EXTRA_CA_CERTS,
+    isHttps,
+  ]);
+  if (!agents.has(key)) {
+    agents.set(key, newAgent(proxy, isHttps));
+  }
+  return agents.get(key);
+}
+
+function newAgent(proxy: string | undefined, isHttps: boolean) {
+  const ca = readExtraCaCerts();
+  if (proxy) {
+    return ca
+      ? new TrustingProxyAgent(proxy, ca)
+      : new HttpsProxyAgent(parseProxy(proxy));
+  }
+  if (ca && isHttps) {
+    return new https.Agent({ ca });
+  }
+  return undefined;
+}
+
+export function makeRequestConfig(url: string): AxiosRequestConfig {
+  const agent = makeAgent(url);
+  return {
+    timeout: getHttpSettings().timeout,
+    // axios can't tunnel https requests through a proxy, so the agent does
+    proxy: false,
+    httpAgent: agent,
+    httpsAgent: agent,
+  };
+}
+
+export function classifyError(error: AxiosError): ApiErrorReason {
+  const status = error.response?.status;
+  if (!status) {
+    return "network";
+  }
+  if (status === 401 || status === 403) {
+    return "auth";
+  }
+  if (status === 404) {
+    return "not-found";
+  }
+  return "server";
+}
+
+/**
+ * Whether a request may succeed if tried again: the server couldn't be
+ * reached, or it's overloaded or restarting. Requests that timed out aren't
+ * retried, since they already waited for long.
+ */
+export function isRetryable(error: AxiosError) {
+  if (error.code === "ECONNABORTED") {
+    return false;
+  }
+  const status = error.response?.status;
+  return !status || [429, 502, 503, 504].includes(status);
+}
@@ -0,0 +1,141 @@
+import {
+  ComponentSkeletonModel,
+  ProjectSyncDataProviderType,
+  ProjectSyncMetadataModel,
+} from "@plasmicapp/code-merger";
+import glob from "glob";
+import path from "upath";
+import { logger } from "../deps";
+import { MERGE_BASES_DIR_NAME, PlasmicContext } from "./config-utils";
+import { deleteStateFile, readStateFile, writeStateFile } from "./file-utils";
+
+/**
+ * Local store of the skeleton modules that direct-scheme components were
+ * last generated as, with the revision they were generated at. These are the
+ * bases for three-way merges, so that merging doesn't depend on the server
+ * still having the revision. Only the latest base of each component is kept.
+ *
+ * The store is the cli's own state: it's written once a sync's changes are,
+ * and isn't part of them.
+ */
+
+interface StoredMergeBase {
+  revision: number;
+  component: ReturnType<ComponentSkeletonModel["toJSON"]>;
+}
+
+function mergeBasePath(
+  context: PlasmicContext,
+  projectId: string,
+  componentId: string
+) {
+  return path.join(
+    context.rootDir,
+    MERGE_BASES_DIR_NAME,
+    projectId,
+    `${componentId}.json`
+  );
+}
+
+/**
+ * The stored merge base of the component, if it's at the revision.
+ */
+export function readMergeBase(
+  context: PlasmicContext,
+  projectId: string,
+  componentId: string,
+  revision: number
+): ComponentSkeletonModel | undefined {
+  const filePath = mergeBasePath(context, projectId, componentId);
+  const content = readStateFile(filePath);
+  if (content === undefined) {
+    return undefined;
+  }
+  try {
+    const stored: StoredMergeBase = JSON.parse(content);
+    return stored.revision === revision
+      ? ComponentSkeletonModel.fromJsObject(stored.component)
+      : undefined;
+  } catch (e) {
+    logger.warn(`Ignoring unreadable merge base ${filePath}: ${e}`);
+    return undefined;
+  }
+}
+
+/**
+ * Stores the component as the merge base of its file, replacing the one
+ * stored before.
+ */
+export function saveMergeBase(
+  context: PlasmicContext,
+  projectId: string,
+  revision: number,
+  component: ComponentSkeletonModel
+) {
+  const stored: StoredMergeBase = { revision, component: component.toJSON() };
+  writeStateFile(
+    mergeBasePath(context, projectId, component.uuid),
+    JSON.stringify(stored, undefined, 2)
+  );
+}
+
+/**
+ * Deletes the stored merge bases of a project, e.g. once it's removed.
+ */
+export function deleteMergeBases(context: PlasmicContext, projectId: string) {
+  const dir = path.join(context.rootDir, MERGE_BASES_DIR_NAME, projectId);
+  for (const filePath of glob.sync(`${dir}/*.json`)) {
+    deleteStateFile(filePath);
+  }
+}
+
+/**
+ * Stores a freshly generated skeleton module as the merge base for the
+ * revision it was generated at, i.e. the base of the next merge.
+ */
+export function saveSkeletonAsMergeBase(
+  context: PlasmicContext,
+  projectId: string,
+  componentId: string,
+  nameInIdToUuid: [string, string][],
+  skeletonModule: string
+) {
+  const m = skeletonModule.match(/\/\/\s*plasmic-managed-jsx\/(\d+)/);
+  if (!m) {
+    return;
+  }
+  saveMergeBase(
+    context,
+    projectId,
+    +m[1],
+    new ComponentSkeletonModel(
+      componentId,
+      new Map(nameInIdToUuid),
+      skeletonModule
+    )
+  );
+}
+
+/**
+ * Returns a ProjectSyncDataProviderType that prefers the stored merge base of
+ * the component, and only falls back to fetchFromServer (storing the
+ * component's base) if it isn't stored at the revision.
+ */
+export function makeMergeBaseProvider(
+  context: PlasmicContext,
+  componentId: string,
+  fetchFromServer: ProjectSyncDataProviderType
+): ProjectSyncDataProviderType {
+  return async (projectId: string, revision: number) => {
+    const stored = readMergeBase(context, projectId, componentId, revision);
+    if (stored) {
+      return new ProjectSyncMetadataModel([stored]);
+    }
+    const fetched = await fetchFromServer(projectId, revision);
+    const component = fetched.components.find((c) => c.uuid === componentId);
+    if (component) {
+      saveMergeBase(context, projectId, revision, component);
+    }
+    return fetched;
+  };
+}
@@ -0,0 +1,424 @@
+import L from "lodash";
+import {
+  ChecksumBundle,
+  ComponentBundle,
+  ProjectBundle,
+  ProjectIconsResponse,
+  ProjectIdAndToken,
+  ProjectMetaBundle,
+  ProjectVersionMeta,
+  RequiredPackages,
+  StyleConfigResponse,
+  StyleTokensMap,
+  VersionResolution,
+} from "../api";
+import { ensure } from "./lang-utils";
+import * as semver from "./semver";
+
+/**
+ * A simplified model of the projects on the Plasmic server, which generates
+ * code that records the component it was generated from. It backs both the
+ * mock PlasmicApi in the tests and `plasmic dev-server`.
+ */
+export interface MockProject {
+  projectId: string;
+  projectApiToken: string;
+  version: string;
+  projectName: string;
+  components: MockComponent[];
+  dependencies: {
+    [projectId: string]: string;
+  };
+}
+export interface MockComponent {
+  id: string;
+  name: string;
+  projectId?: string;
+  version?: string;
+}
+
+/**
+ * The credentials of a request, either a user or project API tokens.
+ */
+export interface MockCredentials {
+  user?: string;
+  token?: string;
+  projectIdsAndTokens: ProjectIdAndToken[];
+}
+
+/**
+ * The credentials don't give access to a project.
+ */
+export class MockAccessError extends Error {}
+
+/**
+ * Used to interpret data that's stored in the "codegen" files from the Mock server
+ * @param data
+ */
+export function stringToMockComponent(
+  data?: string
+): MockComponent | undefined {
+  if (!data) {
+    return;
+  }
+  const withoutComments = data.startsWith("//") ? data.slice(2) : data;
+  const cleaned = withoutComments.trim();
+  return JSON.parse(cleaned);
+}
+
+/**
+ * Used to write mock data into files for testing.
+ * Useful to see what version was written
+ * Need to prefix with a comment to satisfy the parser used in `fixAllImports`
+ * @param component
+ */
+function mockComponentToString(component: MockComponent): string {
+  return "// " + JSON.stringify(component);
+}
+
+function genFilename(base: string, suffix: string) {
+  return "Plasmic" + base + "." + suffix;
+}
+
+function genComponentBundle(component: MockComponent): ComponentBundle {
+  return {
+    renderModule: mockComponentToString(component),
+    skeletonModule: mockComponentToString(component),
+    cssRules: `theClass {color: blue;}`,
+    renderModuleFileName: genFilename(component.name, "tsx"),
+    skeletonModuleFileName: component.name + ".tsx",
+    cssFileName: genFilename(component.name, "css"),
+    componentName: component.name,
+    id: component.id,
+    scheme: "blackbox",
+    nameInIdToUuid: [],
+    isPage: false,
+  };
+}
+
+function genEmptyStyleTokensMap(): StyleTokensMap {
+  return {
+    props: [],
+    global: {
+      meta: {
+        source: "plasmic.app" as "plasmic.app",
+      },
+    },
+  };
+}
+
+function genProjectMetaBundle(projectId: string): ProjectMetaBundle {
+  return {
+    projectId,
+    projectName: projectId,
+    cssFileName: genFilename(projectId, "css"),
+    cssRules: `theClass {color: green;}`,
+    jsBundleThemes: [],
+  };
+}
+
+function mockProjectToProjectVersionMeta(
+  mock: MockProject,
+  componentIdOrNames?: readonly string[]
+): ProjectVersionMeta {
+  return {
+    ...mock,
+    componentIds: mock.components
+      .filter(
+        (c) =>
+          !componentIdOrNames ||
+          componentIdOrNames.includes(c.name) ||
+          componentIdOrNames.includes(c.id)
+      )
+      .map((c) => c.id),
+  };
+}
+
+export class MockProjectStore {
+  // Keyed by (projectId, version)
+  private projects: MockProject[] = [];
+  // The components of each revision of a project, the first one being
+  // revision 1
+  private revisions = new Map<string, MockComponent[][]>();
+
+  clear() {
+    this.projects.length = 0;
+    this.revisions.clear();
+  }
+
+  /**
+   * Adds a version of a project, or replaces its components and
+   * dependencies if it exists. Either way, this makes a new revision of the
+   * project.
+   */
+  addProject(proj: MockProject) {
+    const projectId = proj.projectId;
+    const version = proj.version;
+    // Populate projectId and version into each component
+    // will be useful when reading / writing components to files
+    proj.components = proj.components.map((c) => {
+      return {
+        ...c,
+        projectId,
+        version,
+      };
+    });
+
+    const existing = this.getProject(projectId, version);
+    if (!existing) {
+      this.projects.push(proj);
+    } else {
+      existing.components = proj.components;
+      existing.dependencies = proj.dependencies;
+    }
+    this.revisions.set(projectId, [
+      ...(this.revisions.get(projectId) ?? []),
+      proj.components,
+    ]);
+    return this.revision(projectId);
+  }
+
+  getProject(projectId: string, version: string): MockProject | undefined {
+    return this.projects.find(
+      (m) => m.projectId === projectId && m.version === version
+    );
+  }
+
+  /**
+   * All versions of a project, newest first.
+   */
+  getVersions(projectId: string) {
+    return semver
+      .sortDesc(
+        this.projects
+          .filter((p) => p.projectId === projectId)
+          .map((p) => p.version)
+      )
+      .map((version) => ensure(this.getProject(projectId, version)));
+  }
+
+  revision(projectId: string) {
+    return this.revisions.get(projectId)?.length ?? 0;
+  }
+
+  /**
+   * Only fetch top-level components that match the projectId (optionally also componentIdOrNames + version)
+   * Does not crawl the dependency tree
+   * @param projectId
+   * @param componentIdOrNames
+   * @param versionRange
+   */
+  private getComponents(
+    projectId: string,
+    version: string,
+    componentIdOrNames: readonly string[] | undefined
+  ): MockComponent[] {
+    const project = this.getProject(projectId, version);
+    return !project
+      ? []
+      : project.components.filter(
+          (c) =>
+            !componentIdOrNames ||
+            componentIdOrNames.includes(c.id) ||
+            componentIdOrNames.includes(c.name)
+        );
+  }
+
+  private *getDeps(projects: ProjectVersionMeta[]) {
+    const queue: ProjectVersionMeta[] = [...projects];
+    while (queue.length > 0) {
+      const curr = ensure(queue.shift());
+      for (const [projectId, version] of L.toPairs(curr.dependencies)) {
+        const mockProject = ensure(this.getProject(projectId, version));
+        const projectMeta = mockProjectToProjectVersionMeta(mockProject);
+        yield projectMeta;
+        queue.push(projectMeta);
+      }
+    }
+  }
+
+  genStyleConfig(): StyleConfigResponse {
+    return {
+      defaultStyleCssFileName: genFilename("default", "css"),
+      defaultStyleCssRules: `theClass {color: red;}`,
+    };
+  }
+
+  requiredPackages(): RequiredPackages {
+    return {
+      "@plasmicapp/loader": "0.0.1",
+      "@plasmicapp/cli": "0.0.1",
+      "@plasmicapp/react-web": "0.0.1",
+    };
+  }
+
+  resolveSync(
+    credentials: MockCredentials,
+    projects: {
+      projectId: string;
+      versionRange: string;
+      componentIdOrNames: readonly string[] | undefined;
+      projectApiToken?: string;
+    }[],
+    recursive?: boolean
+  ): VersionResolution {
+    const results: VersionResolution = {
+      projects: [],
+      dependencies: [],
+      conflicts: [],
+    };
+
+    // Get top level projects
+    projects.forEach((proj) => {
+      const availableProjects = this.projects.filter(
+        (p) => p.projectId === proj.projectId
+      );
+      if (
+        !(
+          (credentials.user && credentials.token) ||
+          availableProjects.every(
+            (p) => p.projectApiToken === proj.projectApiToken
+          )
+        )
+      ) {
+        throw new MockAccessError(
+          "No user+token, and project API tokens don't match"
+        );
+      }
+      const availableVersions = availableProjects.map((p) => p.version);
+      const version = semver.maxSatisfying(
+        availableVersions,
+        proj.versionRange
+      );
+      if (version) {
+        const mockProject = ensure(this.getProject(proj.projectId, version));
+        const projectMeta = mockProjectToProjectVersionMeta(
+          mockProject,
+          proj.componentIdOrNames
+        );
+        results.projects.push(projectMeta);
+      }
+    });
+
+    // Get dependencies
+    if (!!recursive) {
+      const deps = [...this.getDeps(results.projects)];
+      results.dependencies.push(...deps);
+    }
+
+    return results;
+  }
+
+  projectComponents(
+    credentials: MockCredentials,
+    projectId: string,
+    componentIdOrNames: readonly string[] | undefined,
+    version: string
+  ): ProjectBundle {
+    const maybeTokenPair = credentials.projectIdsAndTokens.find(
+      (pair) => pair.projectId === projectId
+    );
+    const project = this.projects.find((p) => p.projectId === projectId);
+    if (!project) {
+      throw new Error(`Project ${projectId} does not exist`);
+    }
+    if (
+      !(
+        (credentials.user && credentials.token) ||
+        project.projectApiToken === maybeTokenPair?.projectApiToken
+      )
+    ) {
+      throw new MockAccessError(
+        "No user+token and project API tokens don't match"
+      );
+    }
+    // Server also require tokens for the dependencies.
+    const deps = [...this.getDeps([mockProjectToProjectVersionMeta(project)])];
+    if (
+      !deps.every((dep) =>
+        credentials.projectIdsAndTokens.find(
+          (p) => p.projectId === dep.projectId
+        )
+      )
+    ) {
+      throw new MockAccessError(
+        "No user+token and project API tokens don't match on a dependency"
+      );
+    }
+    const mockComponents = this.getComponents(
+      projectId,
+      version,
+      componentIdOrNames
+    );
+    if (mockComponents.length <= 0) {
+      throw new Error(
+        `Code gen failed: no components match the parameters ${JSON.stringify(
+          { projectId, version, componentIdOrNames },
+          undefined,
+          2
+        )}`
+      );
+    }
+
+    const components = mockComponents.map((c) => genComponentBundle(c));
+    return {
+      components,
+      codeComponentMetas: [],
+      projectConfig: genProjectMetaBundle(projectId),
+      globalVariants: [],
+      usedTokens: genEmptyStyleTokensMap(),
+      iconAssets: [],
+      imageAssets: [],
+      checksums: {
+        renderModuleChecksums: components.map((c) => [c.id, c.renderModule]),
+        cssRulesChecksums: components.map((c) => [c.id, c.cssRules]),
+        imageChecksums: [],
+        iconChecksums: [],
+        globalVariantChecksums: [],
+        projectCssChecksum: "",
+      } as ChecksumBundle,
+    };
+  }
+
+  projectStyleTokens(projectId: string): StyleTokensMap {
+    this.ensureProject(projectId);
+    return genEmptyStyleTokensMap();
+  }
+
+  projectIcons(
+    projectId: string,
+    versionRange = "latest"
+  ): ProjectIconsResponse {
+    const project = this.getVersions(projectId).find((p) =>
+      semver.satisfies(p.version, versionRange)
+    );
+    if (!project) {
+      throw new Error(
+        `Project ${projectId} has no version matching ${versionRange}`
+      );
+    }
+    return { version: project.version, icons: [] };
+  }
+
+  /**
+   * The skeleton modules generated at a revision of a project, as the
+   * ComponentSkeletonModel json that merging edited files starts from.
+   */
+  projectSyncMetadata(projectId: string, revision: number) {
+    const components = this.revisions.get(projectId)?.[revision - 1];
+    if (!components) {
+      throw new Error(`Project ${projectId} has no revision ${revision}`);
+    }
+    return components.map((c) => ({
+      uuid: c.id,
+      nameInIdToUuid: [],
+      fileContent: genComponentBundle(c).skeletonModule,
+    }));
+  }
+
+  private ensureProject(projectId: string) {
+    if (!this.projects.some((p) => p.projectId === projectId)) {
+      throw new Error(`Project ${projectId} does not exist`);
+    }
+  }
+}
@@ -0,0 +1,164 @@
+import { SyncArgs } from "../actions/sync";
+import {
+  ComponentConfig,
+  CONFIG_FILE_NAME,
+  PlasmicContext,
+  ProjectConfig,
+} from "./config-utils";
+import { HandledError } from "./error";
+import { requireLocalModule } from "./file-utils";
+
+/**
+ * A file that Plasmic is about to write.
+ */
+export interface PluginFile {
+  type:
+    | "renderModule"
+    | "skeletonModule"
+    | "cssRules"
+    | "projectCss"
+    | "defaultStyleCss"
+    | "globalVariant"
+    | "icon"
+    | "image"
+    | "story"
+    | "barrel";
+  // Path of the file, relative to srcDir
+  path: string;
+  // A Buffer for images, and text otherwise
+  content: string | Buffer;
+}
+
+export interface SyncSummary {
+  // The synced projects, as now recorded in plasmic.json
+  projects: ProjectConfig[];
+  // The components that were written
+  components: ComponentConfig[];
+}
+
+/**
+ * The hooks that a plugin module listed in plasmic.json may export. All of
+ * them may be async, and none of them is called for a dry run, except for
+ * transformFile.
+ *
+ * transformFile is called again for a file that Plasmic updates after
+ * writing it, e.g. to point to the synced images, so it should leave content
+ * that it has already transformed as is.
+ */
+export interface PlasmicPlugin {
+  // Called before anything is synced
+  beforeSync?: (context: PlasmicContext) => void | Promise<void>;
+  // Returns the content to write instead of file.content, or undefined to
+  // leave it as is
+  transformFile?: (
+    file: PluginFile
+  ) => string | Buffer | undefined | Promise<string | Buffer | undefined>;
+  // Called for each synced component, once its files have been written
+  afterComponentSync?: (component: ComponentConfig) => void | Promise<void>;
+  // Called once plasmic.json and plasmic.lock have been updated
+  afterSync?: (summary: SyncSummary) => void | Promise<void>;
+}
+
+export interface LoadedPlugin {
+  name: string;
+  hooks: PlasmicPlugin;
+}
+
+/**
+ * Loads the plugins listed in plasmic.json, whose directory is `rootDir`.
+ */
+export function loadPlugins(rootDir: string, plugins?: string[]) {
+  return (plugins ?? []).map(
+    (name): LoadedPlugin => {
+      let hooks: unknown;
+      try {
+        const mod = requireLocalModule(rootDir, name);
+        hooks = mod.default ?? mod;
+      } catch (e) {
+        throw new HandledError(`Cannot load the plugin ${name}: ${e.message}`);
+      }
+      if (typeof hooks !== "object" || !hooks) {
+        throw new HandledError(
+          `The plugin ${name} in ${CONFIG_FILE_NAME} must export its hooks, like beforeSync(context).`
+        );
+      }
+      return { name, hooks: hooks as PlasmicPlugin };
+    }
+  );
+}
+
+/**
+ * Calls `hook` of each plugin in turn.
+ */
+export async function callPlugins<
+  H extends "beforeSync" | "afterComponentSync" | "afterSync"
+>(
+  context: PlasmicContext,
+  hook: H,
+  arg: Parameters<NonNullable<PlasmicPlugin[H]>>[0]
+) {
+  // Only sync has a dry run
+  const { dryRun }: Pick<SyncArgs, "dryRun"> = context.cliArgs;
+  if (dryRun) {
+    return;
+  }
+  for (const plugin of context.plugins) {
+    const fn = plugin.hooks[hook] as
+      | ((a: typeof arg) => void | Promise<void>)
+      | undefined;
+    if (fn) {
+      await runHook(plugin, hook, () => fn(arg));
+    }
+  }
+}
+
+/**
+ * Runs the transformFile hook of each plugin in turn on a file about to be
+ * written, returning its final content.
+ */
+export async function transformFile<T extends string | Buffer>(
+  context: PlasmicContext,
+  type: PluginFile["type"],
+  path: string,
+  content: T
+): Promise<T> {
+  let result = content;
+  for (const plugin of context.plugins) {
+    const transform = plugin.hooks.transformFile;
+    if (!transform) {
+      continue;
+    }
+    const transformed = await runHook(plugin, "transformFile", () =>
+      transform({ type, path, content: result })
+    );
+    if (transformed === undefined) {
+      continue;
+    }
+    if (typeof transformed !== typeof result) {
+      throw new HandledError(
+        `transformFile() in the plugin ${plugin.name} must return ${
+          typeof result === "string" ? "a string" : "a Buffer"
+        } for ${path}.`
+      );
+    }
+    result = transformed as T;
+  }
+  return result;
+}
+
+async function runHook<T>(
+  plugin: LoadedPlugin,
+  hook: keyof PlasmicPlugin,
+  run: () => T | Promise<T>
+) {
+  try {
+    return await run();
+  } catch (e) {
+    if (e instanceof HandledError) {
+      throw e;
+    }
+    throw new HandledError(
+      `${hook}() in the plugin ${plugin.name} failed: ${e.message}`
+    );
+  }
+}
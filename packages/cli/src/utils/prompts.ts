@@ -1,4 +1,85 @@
 import inquirer from "inquirer";
+import { PromptRequiredError } from "./error";
+
+/**
+ * Asks the user for answers. The cli asks on the terminal, but programmatic
+ * users can answer some other way with setPromptHandler.
+ */
+export interface PromptHandler {
+  confirm(question: {
+    message: string;
+    defaultAnswer: boolean;
+  }): Promise<boolean>;
+  choose<T>(question: {
+    message: string;
+    choices: { name: string; value: T }[];
+    defaultAnswer: T;
+  }): Promise<T>;
+  input(question: { message: string; defaultAnswer?: string }): Promise<string>;
+}
+
+export const terminalPromptHandler: PromptHandler = {
+  async confirm({ message, defaultAnswer }) {
+    const choices = `(${defaultAnswer ? "Y" : "y"}/${
+      defaultAnswer ? "n" : "N"
+    })`;
+    const res = await inquirer.prompt([
+      {
+        name: "answer",
+        message: `${message} ${choices}`,
+        default: defaultAnswer ? "y" : "n",
+      },
+    ]);
+    return ["y", "yes"].includes(res.answer.toLowerCase());
+  },
+  async choose({ message, choices, defaultAnswer }) {
+    const res = await inquirer.prompt([
+      {
+        name: "answer",
+        type: "list",
+        message,
+        choices,
+        default: defaultAnswer,
+      },
+    ]);
+    return res.answer;
+  },
+  async input({ message, defaultAnswer }) {
+    const res = await inquirer.prompt([
+      {
+        name: "answer",
+        message,
+        default: defaultAnswer,
+      },
+    ]);
+    return res.answer;
+  },
+};
+
+function failPrompt(question: { message: string }): never {
+  throw new PromptRequiredError(
+    `Cannot ask "${question.message.trim()}" without a prompt handler; pass yes: true to accept the defaults.`
+  );
+}
+
+/**
+ * Fails instead of asking, for when there is no one to ask.
+ */
+export const nonInteractivePromptHandler: PromptHandler = {
+  confirm: async (question) => failPrompt(question),
+  choose: async (question) => failPrompt(question),
+  input: async (question) => failPrompt(question),
+};
+
+let promptHandler = terminalPromptHandler;
+
+export function setPromptHandler(handler: PromptHandler) {
+  promptHandler = handler;
+}
+
+export function getPromptHandler() {
+  return promptHandler;
+}
 
 export function askChoice<T>(question: {
   message: string;
@@ -9,14 +90,12 @@ export function askChoice<T>(question: {
   if (question.hidePrompt) {
     return question.defaultAnswer;
   }
-  return inquirer
-    .prompt([
-      {
-        name: "answer",
-        type: "list",
-        message: question.message,
-        choices: question.choices,
-      },
-    ])
-    .then((answer) => answer.answer as T);
+  return promptHandler.choose({
+    message: question.message,
+    choices: question.choices.map((choice) => ({
+      name: `${choice}`,
+      value: choice,
+    })),
+    defaultAnswer: question.defaultAnswer,
+  });
 }
@@ -0,0 +1,134 @@
+import { logToStderr } from "../deps";
+
+/**
+ * Events emitted by `plasmic sync` and `plasmic watch` when run with `--json`.
+ *
+ * Each event is written to stdout as a single line of JSON, and all
+ * human-readable output goes to stderr instead. New event types and fields
+ * may be added over time, but existing ones are not renamed or removed.
+ */
+export type CliEvent =
+  | {
+      type: "project-synced";
+      projectId: string;
+      projectName: string;
+      version: string;
+    }
+  | {
+      type: "component-synced";
+      projectId: string;
+      componentId: string;
+      name: string;
+      version: string;
+      isNew: boolean;
+      renderModuleFilePath: string;
+      skeletonModulePath: string;
+      cssFilePath: string;
+    }
+  | {
+      type: "component-deleted";
+      projectId: string;
+      componentId: string;
+      name: string;
+    }
+  | {
+      type: "icon-synced";
+      projectId: string;
+      iconId: string;
+      name: string;
+      filePath: string;
+    }
+  | {
+      type: "icon-deleted";
+      projectId: string;
+      iconId: string;
+      name: string;
+    }
+  | {
+      type: "image-written";
+      projectId: string;
+      imageId: string;
+      name: string;
+      filePath: string;
+    }
+  | {
+      type: "image-deleted";
+      projectId: string;
+      imageId: string;
+      name: string;
+    }
+  | {
+      type: "global-variant-synced";
+      projectId: string;
+      globalVariantId: string;
+      name: string;
+      filePath: string;
+    }
+  | {
+      type: "global-variant-deleted";
+      projectId: string;
+      globalVariantId: string;
+      name: string;
+    }
+  | {
+      type: "merge-conflict";
+      projectId: string;
+      componentId: string;
+      name: string;
+      filePath: string;
+      message: string;
+      // How the conflict was dealt with:
+      // * "merged" - the files were merged, but some edits may need review
+      // * "overwritten" - the local file was replaced by the new version
+      // * "kept-local" - the local file was left untouched
+      // * "failed" - the sync was aborted
+      resolution: "merged" | "overwritten" | "kept-local" | "failed";
+    }
+  | {
+      type: "post-sync-command";
+      command: string;
+      exitCode: number | null;
+    }
+  | {
+      type: "revision-updated";
+      projectId: string;
+      revision: number;
+    }
+  | {
+      // Sent by watch whenever its connection or sync state changes
+      type: "watch-health";
+      connected: boolean;
+      // Number of the current reconnection attempt, or 0 while connected
+      reconnectAttempt: number;
+      syncing: boolean;
+      pendingProjectIds: string[];
+      lastSyncedAt?: string;
+      lastError?: string;
+    }
+  | {
+      type: "error";
+      message: string;
+    };
+
+let jsonReporter = false;
+
+/**
+ * Switches to machine-readable output: from now on, events are written to
+ * stdout and logs to stderr.
+ */
+export function useJsonReporter() {
+  if (!jsonReporter) {
+    jsonReporter = true;
+    logToStderr();
+  }
+}
+
+export function isJsonReporter() {
+  return jsonReporter;
+}
+
+export function reportEvent(event: CliEvent) {
+  if (jsonReporter) {
+    process.stdout.write(JSON.stringify(event) + "\n");
+  }
+}
@@ -0,0 +1,660 @@
+import * as babel from "@babel/core";
+import generate from "@babel/generator";
+import * as parser from "@babel/parser";
+import traverse, { Node, NodePath } from "@babel/traverse";
+import {
+  Expression,
+  File,
+  ImportDeclaration,
+  JSXAttribute,
+  JSXElement,
+  JSXSpreadAttribute,
+  ObjectExpression,
+  ReturnStatement,
+  Statement,
+} from "@babel/types";
+import { tryParsePlasmicImportSpec } from "@plasmicapp/code-merger";
+import L from "lodash";
+import { HandledError } from "./error";
+
+/**
+ * Converting a skeleton module between the blackbox scheme, where it renders
+ * Plasmic<Component> with overrides for the named nodes, and the direct
+ * scheme, where it renders the JSX tree itself, marked with a
+ * plasmic-managed-jsx comment and bound to Plasmic through the `rh` render
+ * helper, like className={rh.clsRoot()}.
+ *
+ * A node named "startIcon" is overridden by the startIcon prop of
+ * Plasmic<Component>, and is the node with rh.clsStartIcon() or
+ * rh.propsStartIcon() in the tree.
+ */
+
+const t = babel.types;
+
+// The render helper of direct skeletons
+const HELPER = "rh";
+
+// Keys of an override that aren't props of its node
+const OVERRIDE_KEYS = ["as", "props", "render", "wrap"];
+
+export interface ConvertedSkeleton {
+  code: string;
+  // Edits that couldn't be carried over
+  warnings: string[];
+}
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Converts the blackbox skeleton `edited` to the direct scheme, by replacing
+ * its Plasmic<Component> element with the JSX tree of the generated
+ * `directSkeleton`, and lifting the overrides into the props of the
+ * overridden nodes.
+ */
+export function liftOverridesIntoJsx(
+  edited: string,
+  directSkeleton: string,
+  componentName: string
+): ConvertedSkeleton {
+  const warnings: string[] = [];
+  const newFile = parseSkeleton(directSkeleton);
+  const managed = findManagedReturn(newFile);
+  if (!managed?.node.argument) {
+    throw new HandledError(
+      `The direct skeleton of ${componentName} has no plasmic-managed-jsx tree.`
+    );
+  }
+  const elements = findNamedElements(managed.node);
+
+  const editedFile = parseSkeleton(edited);
+  const instance = findElement(editedFile, `Plasmic${componentName}`);
+  const instanceReturn = instance?.findParent((p) => p.isReturnStatement());
+  if (!instance || !instanceReturn) {
+    throw new HandledError(
+      `Cannot find where ${componentName} returns <Plasmic${componentName} />, so it cannot be converted.`
+    );
+  }
+
+  const lift = (name: string, value: Node) => {
+    const element = elements.get(L.upperFirst(name));
+    if (!element) {
+      warnings.push(
+        `There is no node named ${name} in the JSX tree, so its override was left out.`
+      );
+    } else {
+      liftOverride(element, name, value, warnings);
+    }
+  };
+  for (const attr of instance.node.openingElement.attributes) {
+    const name =
+      attr.type === "JSXAttribute" && attr.name.type === "JSXIdentifier"
+        ? attr.name.name
+        : undefined;
+    const value =
+      attr.type === "JSXAttribute" &&
+      attr.value?.type === "JSXExpressionContainer"
+        ? attr.value.expression
+        : attr.type === "JSXAttribute"
+        ? attr.value
+        : undefined;
+    if (name === "overrides" && value?.type === "ObjectExpression") {
+      for (const prop of value.properties) {
+        const key = prop.type === "ObjectProperty" && propertyKey(prop.key);
+        if (prop.type === "ObjectProperty" && key) {
+          lift(key, prop.value);
+        } else {
+          warnings.push(`Could not lift ${print(prop)} into the JSX tree.`);
+        }
+      }
+    } else if (
+      name &&
+      value &&
+      value.type !== "JSXEmptyExpression" &&
+      elements.has(L.upperFirst(name))
+    ) {
+      lift(name, value);
+    } else {
+      warnings.push(`Could not lift ${print(attr)} into the JSX tree.`);
+    }
+  }
+
+  const block = managed.parentPath.node;
+  const prelude =
+    block.type === "BlockStatement"
+      ? block.body.slice(0, block.body.indexOf(managed.node))
+      : [];
+  const marker = ensureMarker(managed.node);
+  const code = applyEdits(edited, [
+    ...mergeImports(editedFile, newFile, directSkeleton),
+    {
+      start: startOf(instanceReturn.node),
+      end: endOf(instanceReturn.node),
+      text: [
+        ...prelude.map((stmt) =>
+          directSkeleton.slice(startOf(stmt), endOf(stmt))
+        ),
+        `//${marker}`,
+        `return ${print(managed.node.argument)};`,
+      ].join("\n"),
+    },
+  ]);
+  return { code: pruneRenderImport(code), warnings };
+}
+
+/**
+ * Converts the direct skeleton `edited` to the blackbox scheme, by replacing
+ * its JSX tree with the Plasmic<Component> element of `blackboxSkeleton`,
+ * passing the props added to the named nodes as their overrides. `base` is
+ * the direct skeleton that `edited` was generated as, which tells the added
+ * props apart from the generated ones; without it, every prop that doesn't
+ * use the render helper counts as added.
+ */
+export function wrapJsxIntoOverrides(
+  edited: string,
+  blackboxSkeleton: string,
+  componentName: string,
+  base: string | undefined
+): ConvertedSkeleton {
+  const warnings: string[] = [];
+  const editedFile = parseSkeleton(edited);
+  const managed = findManagedReturn(editedFile);
+  if (!managed) {
+    throw new HandledError(
+      `${componentName} has no plasmic-managed-jsx tree, so it cannot be converted.`
+    );
+  }
+  const baseManaged = base ? findManagedReturn(parseSkeleton(base)) : undefined;
+  const baseElements = baseManaged
+    ? findNamedElements(baseManaged.node)
+    : undefined;
+  if (!baseElements) {
+    warnings.push(
+      `Could not find the generated version of ${componentName}, so edits to the children of its nodes were left out.`
+    );
+  }
+
+  const attrs: string[] = [];
+  // What the render helper was made from is passed to Plasmic<Component>
+  const renderHelper = findRenderHelper(managed);
+  const helperArgs = renderHelper?.init.arguments ?? [];
+  ["variants", "args", "className"].forEach((name, i) => {
+    if (helperArgs[i]) {
+      attrs.push(`${name}={${print(helperArgs[i])}}`);
+    }
+  });
+
+  for (const [nameInId, element] of findNamedElements(managed.node)) {
+    const baseElement = baseElements?.get(nameInId);
+    const generatedAttrs = new Set(
+      baseElement?.openingElement.attributes.map(print)
+    );
+    const props: string[] = [];
+    for (const attr of element.openingElement.attributes) {
+      const code = print(attr);
+      if (usesHelper(code) || generatedAttrs.has(code)) {
+        continue;
+      }
+      props.push(attrToProperty(attr));
+    }
+    if (
+      baseElement &&
+      element.children.map(print).join("") !==
+        baseElement.children.map(print).join("")
+    ) {
+      if (findNamedElements(element).size > 0) {
+        warnings.push(
+          `The children of ${L.lowerFirst(
+            nameInId
+          )} were edited, but they contain other named nodes, so the edits were left out.`
+        );
+      } else {
+        props.push(`children: ${childrenToExpression(element)}`);
+      }
+    }
+    if (props.length > 0) {
+      attrs.push(`${L.lowerFirst(nameInId)}={{ ${props.join(", ")} }}`);
+    }
+  }
+
+  const edits: TextEdit[] = [
+    ...mergeImports(
+      editedFile,
+      parseSkeleton(blackboxSkeleton),
+      blackboxSkeleton
+    ),
+    {
+      // Also drop the plasmic-managed-jsx comment
+      start: Math.min(
+        startOf(managed.node),
+        ...(managed.node.leadingComments ?? []).map(startOf)
+      ),
+      end: endOf(managed.node),
+      text: `return <Plasmic${componentName} ${attrs.join(" ")} />;`,
+    },
+  ];
+  if (renderHelper && renderHelper.unused) {
+    edits.push({
+      start: startOf(renderHelper.statement),
+      end: endOf(renderHelper.statement),
+      text: "",
+    });
+  }
+  return { code: pruneRenderImport(applyEdits(edited, edits)), warnings };
+}
+
+function parseSkeleton(code: string) {
+  return parser.parse(code, {
+    sourceType: "module",
+    plugins: ["jsx", "typescript", "classProperties"],
+  });
+}
+
+function print(node: Node) {
+  return generate(node, { comments: false }).code;
+}
+
+const startOf = (node: { start?: number | null }) => node.start ?? 0;
+const endOf = (node: { end?: number | null }) => node.end ?? 0;
+
+function applyEdits(code: string, edits: TextEdit[]) {
+  let result = code;
+  for (const edit of L.sortBy(edits, (e) => -e.start)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
+
+function ensureMarker(stmt: ReturnStatement) {
+  const comment = stmt.leadingComments?.find((c) =>
+    /plasmic-managed-jsx\/\d+/.test(c.value)
+  );
+  if (!comment) {
+    throw new HandledError("Missing plasmic-managed-jsx comment.");
+  }
+  return comment.value;
+}
+
+function findManagedReturn(file: File) {
+  let found: NodePath<ReturnStatement> | undefined;
+  traverse(file, {
+    ReturnStatement(path) {
+      if (
+        path.node.leadingComments?.some((c) =>
+          /plasmic-managed-jsx\/\d+/.test(c.value)
+        )
+      ) {
+        found = path;
+        path.stop();
+      }
+    },
+  });
+  return found;
+}
+
+function findElement(file: File, name: string) {
+  let found: NodePath<JSXElement> | undefined;
+  traverse(file, {
+    JSXElement(path) {
+      const elementName = path.node.openingElement.name;
+      if (elementName.type === "JSXIdentifier" && elementName.name === name) {
+        found = path;
+        path.stop();
+      }
+    },
+  });
+  return found;
+}
+
+/**
+ * The elements under `root` that are bound to a named node, by nameInId,
+ * like "StartIcon" for the element with className={rh.clsStartIcon()}.
+ */
+function findNamedElements(root: Node) {
+  const elements = new Map<string, JSXElement>();
+  traverse(root, {
+    noScope: true,
+    JSXElement(path) {
+      const nameInId = nameInIdOf(path.node);
+      if (nameInId && !elements.has(nameInId)) {
+        elements.set(nameInId, path.node);
+      }
+    },
+  });
+  return elements;
+}
+
+function nameInIdOf(element: JSXElement) {
+  for (const attr of element.openingElement.attributes) {
+    const expr =
+      attr.type === "JSXSpreadAttribute"
+        ? attr.argument
+        : attr.value?.type === "JSXExpressionContainer"
+        ? attr.value.expression
+        : undefined;
+    if (
+      expr?.type === "CallExpression" &&
+      expr.callee.type === "MemberExpression" &&
+      expr.callee.object.type === "Identifier" &&
+      expr.callee.object.name === HELPER &&
+      expr.callee.property.type === "Identifier"
+    ) {
+      const m = expr.callee.property.name.match(/^(cls|props)(.+)$/);
+      if (m) {
+        return m[2];
+      }
+    }
+  }
+  return undefined;
+}
+
+function usesHelper(code: string) {
+  return new RegExp(`\\b${HELPER}\\.`).test(code);
+}
+
+function propertyKey(key: Node) {
+  return key.type === "Identifier"
+    ? key.name
+    : key.type === "StringLiteral"
+    ? key.value
+    : undefined;
+}
+
+function quoteKey(key: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Turns the override `value` of the node named `name` into props of
+ * `element`.
+ */
+function liftOverride(
+  element: JSXElement,
+  name: string,
+  value: Node,
+  warnings: string[]
+) {
+  if (value.type === "ObjectExpression") {
+    const keys = value.properties.map(
+      (prop) => (prop.type !== "SpreadElement" && propertyKey(prop.key)) || ""
+    );
+    if (!keys.some((key) => OVERRIDE_KEYS.includes(key))) {
+      liftProps(element, name, value, warnings);
+      return;
+    }
+    value.properties.forEach((prop, i) => {
+      if (
+        keys[i] === "props" &&
+        prop.type === "ObjectProperty" &&
+        prop.value.type === "ObjectExpression"
+      ) {
+        liftProps(element, name, prop.value, warnings);
+      } else {
+        warnings.push(
+          `Could not lift ${print(prop)} of ${name} into the JSX tree.`
+        );
+      }
+    });
+  } else if (
+    value.type === "JSXElement" ||
+    value.type === "JSXFragment" ||
+    value.type === "StringLiteral" ||
+    value.type === "TemplateLiteral"
+  ) {
+    setChildren(element, value);
+  } else {
+    element.openingElement.attributes.push(
+      t.jsxSpreadAttribute(value as Expression)
+    );
+  }
+}
+
+function liftProps(
+  element: JSXElement,
+  name: string,
+  props: ObjectExpression,
+  warnings: string[]
+) {
+  for (const prop of props.properties) {
+    const key = prop.type === "ObjectProperty" && propertyKey(prop.key);
+    if (prop.type === "SpreadElement") {
+      element.openingElement.attributes.push(
+        t.jsxSpreadAttribute(prop.argument)
+      );
+    } else if (prop.type === "ObjectProperty" && key === "children") {
+      setChildren(element, prop.value as Expression);
+    } else if (prop.type === "ObjectProperty" && key) {
+      const attributes = element.openingElement.attributes;
+      element.openingElement.attributes = [
+        ...attributes.filter(
+          (attr) =>
+            attr.type !== "JSXAttribute" ||
+            attr.name.type !== "JSXIdentifier" ||
+            attr.name.name !== key
+        ),
+        t.jsxAttribute(
+          t.jsxIdentifier(key),
+          t.jsxExpressionContainer(prop.value as Expression)
+        ),
+      ];
+    } else {
+      warnings.push(
+        `Could not lift ${print(prop)} of ${name} into the JSX tree.`
+      );
+    }
+  }
+}
+
+function setChildren(element: JSXElement, children: Expression) {
+  element.children = [
+    children.type === "JSXElement" || children.type === "JSXFragment"
+      ? children
+      : t.jsxExpressionContainer(children),
+  ];
+  if (!element.closingElement) {
+    element.openingElement.selfClosing = false;
+    element.closingElement = t.jsxClosingElement(
+      t.cloneNode(element.openingElement.name)
+    );
+  }
+}
+
+function attrToProperty(attr: JSXAttribute | JSXSpreadAttribute) {
+  if (attr.type === "JSXSpreadAttribute") {
+    return `...${print(attr.argument)}`;
+  }
+  const key = quoteKey(print(attr.name));
+  if (!attr.value) {
+    return `${key}: true`;
+  }
+  return `${key}: ${print(
+    attr.value.type === "JSXExpressionContainer"
+      ? attr.value.expression
+      : attr.value
+  )}`;
+}
+
+function childrenToExpression(element: JSXElement) {
+  const children = element.children.filter(
+    (child) => child.type !== "JSXText" || child.value.trim()
+  );
+  if (children.length === 0) {
+    return "undefined";
+  }
+  if (children.length === 1) {
+    const child = children[0];
+    if (child.type === "JSXText") {
+      return JSON.stringify(child.value.trim());
+    } else if (child.type === "JSXExpressionContainer") {
+      return print(child.expression);
+    } else if (child.type === "JSXElement" || child.type === "JSXFragment") {
+      return print(child);
+    }
+  }
+  return `<>${children.map(print).join("")}</>`;
+}
+
+/**
+ * The `const rh = new Plasmic<Component>__RenderHelper(...)` declaration of
+ * the function that returns `managed`, and whether rh is used anywhere but in
+ * the managed tree.
+ */
+function findRenderHelper(managed: NodePath<ReturnStatement>) {
+  const binding = managed.scope.getBinding(HELPER);
+  const declarator = binding?.path.node;
+  const statement = binding?.path.parentPath.node as Statement | undefined;
+  if (
+    declarator?.type !== "VariableDeclarator" ||
+    declarator.init?.type !== "NewExpression" ||
+    !statement ||
+    statement.type !== "VariableDeclaration" ||
+    statement.declarations.length !== 1
+  ) {
+    return undefined;
+  }
+  const unused = (binding?.referencePaths ?? []).every(
+    (ref) =>
+      startOf(ref.node) >= startOf(managed.node) &&
+      endOf(ref.node) <= endOf(managed.node)
+  );
+  return { init: declarator.init, statement, unused };
+}
+
+/**
+ * Edits that add the imports of `newFile` that `editedFile` lacks, and
+ * import the render module of `editedFile` the way `newFile` does, keeping
+ * its own specifiers too.
+ */
+function mergeImports(
+  editedFile: File,
+  newFile: File,
+  newCode: string
+): TextEdit[] {
+  const imports = (file: File) =>
+    file.program.body.filter(
+      (stmt): stmt is ImportDeclaration => stmt.type === "ImportDeclaration"
+    );
+  const specKey = (decl: ImportDeclaration) => {
+    const spec = tryParsePlasmicImportSpec(decl);
+    return spec ? `${spec.id}/${spec.type}` : undefined;
+  };
+  const editedImports = imports(editedFile);
+  const editedSpecKeys = new Set(editedImports.map(specKey));
+  const boundNames = new Set(
+    L.flatMap(editedImports, (decl) =>
+      decl.specifiers.map((spec) => spec.local.name)
+    )
+  );
+  const sameLineComment = (decl: ImportDeclaration) => {
+    const comment = decl.trailingComments?.[0];
+    return comment?.loc?.start.line === decl.loc?.end.line
+      ? comment
+      : undefined;
+  };
+  const trailingComment = (decl: ImportDeclaration) => {
+    const comment = sameLineComment(decl);
+    return comment ? ` //${comment.value}` : "";
+  };
+
+  const edits: TextEdit[] = [];
+  const added: string[] = [];
+  for (const decl of imports(newFile)) {
+    const key = specKey(decl);
+    if (key?.endsWith("/render")) {
+      const editedDecl = editedImports.find((d) => specKey(d) === key);
+      const merged = print(
+        t.importDeclaration(
+          L.uniqBy(
+            [...(editedDecl?.specifiers ?? []), ...decl.specifiers],
+            (spec) => spec.local.name
+          ),
+          decl.source
+        )
+      );
+      if (editedDecl) {
+        edits.push({
+          start: startOf(editedDecl),
+          end: endOf(editedDecl),
+          text: merged,
+        });
+      } else {
+        added.push(`${merged}${trailingComment(decl)}`);
+      }
+    } else if (key) {
+      if (!editedSpecKeys.has(key)) {
+        added.push(
+          `${newCode.slice(startOf(decl), endOf(decl))}${trailingComment(decl)}`
+        );
+      }
+    } else if (decl.specifiers.length === 0) {
+      if (!editedImports.some((d) => d.source.value === decl.source.value)) {
+        added.push(newCode.slice(startOf(decl), endOf(decl)));
+      }
+    } else {
+      const missing = decl.specifiers.filter(
+        (spec) => !boundNames.has(spec.local.name)
+      );
+      if (missing.length > 0) {
+        added.push(print(t.importDeclaration(missing, decl.source)));
+      }
+    }
+  }
+  if (added.length > 0) {
+    const last = L.last(editedImports);
+    // After the plasmic-import comment of the last import, if any
+    const at = last ? endOf(sameLineComment(last) ?? last) : 0;
+    edits.push({
+      start: at,
+      end: at,
+      text: last ? `\n${added.join("\n")}` : `${added.join("\n")}\n`,
+    });
+  }
+  return edits;
+}
+
+/**
+ * Drops the specifiers of the render module import that are not used
+ * anymore, like Plasmic<Component> once the JSX tree is rendered directly.
+ */
+function pruneRenderImport(code: string) {
+  const file = parseSkeleton(code);
+  const renderImport = file.program.body.find(
+    (stmt): stmt is ImportDeclaration =>
+      stmt.type === "ImportDeclaration" &&
+      tryParsePlasmicImportSpec(stmt)?.type === "render"
+  );
+  if (!renderImport) {
+    return code;
+  }
+  const used = new Set<string>();
+  traverse(file, {
+    ImportDeclaration(path) {
+      path.skip();
+    },
+    Identifier(path) {
+      used.add(path.node.name);
+    },
+    JSXIdentifier(path) {
+      used.add(path.node.name);
+    },
+  });
+  const specifiers = renderImport.specifiers.filter((spec) =>
+    used.has(spec.local.name)
+  );
+  if (
+    specifiers.length === 0 ||
+    specifiers.length === renderImport.specifiers.length
+  ) {
+    return code;
+  }
+  return applyEdits(code, [
+    {
+      start: startOf(renderImport),
+      end: endOf(renderImport),
+      text: print(t.importDeclaration(specifiers, renderImport.source)),
+    },
+  ]);
+}
@@ -0,0 +1,137 @@
+import L from "lodash";
+import path from "upath";
+import { PlasmicContext, SNAPSHOTS_DIR_NAME } from "./config-utils";
+import {
+  BufferedFsChange,
+  copyFileUnbuffered,
+  deleteDirUnbuffered,
+  existsUnbuffered,
+  makeDirUnbuffered,
+  readDirUnbuffered,
+  readFileBytes,
+  writeFileUnbuffered,
+} from "./file-utils";
+
+/**
+ * Snapshots of the files that syncs changed, as they were before each sync,
+ * so that `plasmic rollback` can restore them. Each snapshot is a directory
+ * holding a snapshot.json manifest and a copy of every file that existed.
+ */
+
+// How many snapshots to keep; older ones are deleted
+const MAX_SNAPSHOTS = 10;
+const MANIFEST_FILE_NAME = "snapshot.json";
+
+export interface SnapshotFile {
+  // Relative to the root dir
+  path: string;
+  // Name of the copy in the snapshot dir; undefined if the file didn't exist
+  backup?: string;
+}
+
+export interface Snapshot {
+  id: string;
+  // ISO timestamp
+  createdAt: string;
+  description: string;
+  files: SnapshotFile[];
+}
+
+function snapshotsDir(context: PlasmicContext) {
+  return path.join(context.rootDir, SNAPSHOTS_DIR_NAME);
+}
+
+/**
+ * Records the current content of the files that are about to be changed.
+ * This has to be called before the buffered changes are written, and writes
+ * directly to disk.
+ */
+export function saveSnapshot(
+  context: PlasmicContext,
+  description: string,
+  changes: BufferedFsChange[]
+) {
+  const root = snapshotsDir(context);
+  const touched = L.uniq(
+    L.flatMap(changes, (change) =>
+      change.type === "rename" ? [change.path, change.newPath] : [change.path]
+    )
+  ).filter((p) => !p.startsWith(root));
+  if (touched.length === 0) {
+    return undefined;
+  }
+
+  const createdAt = new Date();
+  let id = createdAt.toISOString().replace(/[:.]/g, "-");
+  while (existsUnbuffered(path.join(root, id))) {
+    id += "-1";
+  }
+  const dir = path.join(root, id);
+  makeDirUnbuffered(dir);
+  const files = touched.map(
+    (filePath, i): SnapshotFile => {
+      const relPath = path.relative(context.rootDir, filePath);
+      if (!existsUnbuffered(filePath)) {
+        return { path: relPath };
+      }
+      const backup = `${i}`;
+      copyFileUnbuffered(filePath, path.join(dir, backup));
+      return { path: relPath, backup };
+    }
+  );
+  const snapshot: Snapshot = {
+    id,
+    createdAt: createdAt.toISOString(),
+    description,
+    files,
+  };
+  writeFileUnbuffered(
+    path.join(dir, MANIFEST_FILE_NAME),
+    JSON.stringify(snapshot, undefined, 2)
+  );
+
+  readSnapshots(context)
+    .slice(MAX_SNAPSHOTS)
+    .forEach((s) => deleteSnapshot(context, s.id));
+  return snapshot;
+}
+
+/**
+ * Returns the snapshots, newest first.
+ */
+export function readSnapshots(context: PlasmicContext): Snapshot[] {
+  const root = snapshotsDir(context);
+  if (!existsUnbuffered(root)) {
+    return [];
+  }
+  const snapshots = L.flatMap(readDirUnbuffered(root), (id) => {
+    const manifest = path.join(root, id, MANIFEST_FILE_NAME);
+    if (!existsUnbuffered(manifest)) {
+      return [];
+    }
+    return [JSON.parse(readFileBytes(manifest).toString()) as Snapshot];
+  });
+  return L.sortBy(
+    snapshots,
+    (s) => s.createdAt,
+    (s) => s.id
+  ).reverse();
+}
+
+/**
+ * The content that `file` had when the snapshot was taken, or undefined if
+ * it didn't exist.
+ */
+export function readSnapshotFile(
+  context: PlasmicContext,
+  snapshot: Snapshot,
+  file: SnapshotFile
+) {
+  return file.backup
+    ? readFileBytes(path.join(snapshotsDir(context), snapshot.id, file.backup))
+    : undefined;
+}
+
+export function deleteSnapshot(context: PlasmicContext, id: string) {
+  deleteDirUnbuffered(path.join(snapshotsDir(context), id));
+}
@@ -0,0 +1,184 @@
+import L from "lodash";
+import { StyleTokensMap } from "../api";
+import { TokensConfig } from "./config-utils";
+
+type StyleToken = StyleTokensMap["props"][0];
+
+// Metadata we keep next to each token in the non-JSON formats, so that the
+// file can be read back and updated incrementally.
+interface TokenMarker {
+  name: string;
+  type: string;
+  projectId: string;
+  id: string;
+}
+
+const MARKER = "plasmic-token";
+const GENERATED_NOTE = "Generated by Plasmic; do not edit.";
+
+// Vendor key for the Plasmic metadata in W3C $extensions
+const W3C_EXTENSION = "app.plasmic";
+
+// Plasmic token types (camelCased) that have a W3C equivalent
+const W3C_TYPES: Record<string, string> = {
+  color: "color",
+  fontFamily: "fontFamily",
+  fontSize: "dimension",
+  spacing: "dimension",
+  opacity: "number",
+};
+
+export function emptyStyleTokensMap(): StyleTokensMap {
+  return {
+    props: [],
+    global: {
+      meta: {
+        source: "plasmic.app",
+      },
+    },
+  };
+}
+
+/**
+ * Serializes the tokens in the format of the given scheme.
+ */
+export function serializeStyleTokens(
+  scheme: TokensConfig["scheme"],
+  styleMap: StyleTokensMap
+) {
+  switch (scheme) {
+    case "theo":
+      return JSON.stringify(styleMap, undefined, 2);
+    case "w3c":
+      return serializeW3cTokens(styleMap.props);
+    case "css-variables":
+      return [
+        `/* ${GENERATED_NOTE} */`,
+        ":root {",
+        ...withUniqueNames(styleMap.props, L.kebabCase).map(
+          ([name, token]) =>
+            `  --${name}: ${token.value}; /* ${markerOf(token)} */`
+        ),
+        "}",
+        "",
+      ].join("\n");
+    case "scss":
+      return [
+        `// ${GENERATED_NOTE}`,
+        ...withUniqueNames(styleMap.props, (name) =>
+          asIdentifier(L.kebabCase(name))
+        ).map(
+          ([name, token]) => `$${name}: ${token.value}; // ${markerOf(token)}`
+        ),
+        "",
+      ].join("\n");
+    case "ts":
+      return [
+        `// ${GENERATED_NOTE}`,
+        ...withUniqueNames(styleMap.props, (name) =>
+          asIdentifier(L.camelCase(name))
+        ).map(
+          ([name, token]) =>
+            `export const ${name} = ${JSON.stringify(
+              token.value
+            )}; // ${markerOf(token)}`
+        ),
+        "",
+      ].join("\n");
+  }
+}
+
+/**
+ * Parses a tokens file written by serializeStyleTokens. The format is
+ * detected from the content rather than taken from the config, so that
+ * changing tokens.scheme keeps the tokens already synced.
+ */
+export function parseStyleTokens(content: string): StyleTokensMap {
+  const styleMap = emptyStyleTokensMap();
+  if (content.trim().startsWith("{")) {
+    const json = JSON.parse(content);
+    if (L.isArray(json.props)) {
+      // Theo
+      return json;
+    }
+    styleMap.props = L.map(json, (entry: any) => {
+      const marker: TokenMarker = entry.$extensions[W3C_EXTENSION];
+      return fromMarker(marker, entry.$value);
+    });
+    return styleMap;
+  }
+
+  for (const line of content.split("\n")) {
+    const m = line.match(
+      new RegExp(`^(.*?)\\s*(?:/\\*|//) ${MARKER} (\\{.*\\})(?: \\*/)?\\s*$`)
+    );
+    if (!m) {
+      continue;
+    }
+    const [, declaration, markerJson] = m;
+    const value = declaration.startsWith("export const ")
+      ? JSON.parse(declaration.replace(/^[^=]*=\s*/, "").replace(/;$/, ""))
+      : declaration.replace(/^[^:]*:\s*/, "").replace(/;$/, "");
+    styleMap.props.push(fromMarker(JSON.parse(markerJson), value));
+  }
+  return styleMap;
+}
+
+function serializeW3cTokens(tokens: StyleToken[]) {
+  const json: Record<string, any> = {};
+  for (const [name, token] of withUniqueNames(tokens, L.kebabCase)) {
+    const w3cType = W3C_TYPES[L.camelCase(token.type)];
+    json[name] = {
+      $value: token.value,
+      ...(w3cType ? { $type: w3cType } : {}),
+      $extensions: { [W3C_EXTENSION]: toMarker(token) },
+    };
+  }
+  return JSON.stringify(json, undefined, 2);
+}
+
+function toMarker(token: StyleToken): TokenMarker {
+  return {
+    name: token.name,
+    type: token.type,
+    projectId: token.meta.projectId,
+    id: token.meta.id,
+  };
+}
+
+function markerOf(token: StyleToken) {
+  return `${MARKER} ${JSON.stringify(toMarker(token))}`;
+}
+
+function fromMarker(marker: TokenMarker, value: string | number): StyleToken {
+  return {
+    name: marker.name,
+    type: marker.type,
+    value,
+    meta: { projectId: marker.projectId, id: marker.id },
+  };
+}
+
+function asIdentifier(name: string) {
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+/**
+ * Pairs each token with a name derived from its token name, adding a numeric
+ * suffix where different tokens would get the same name.
+ */
+function withUniqueNames(
+  tokens: StyleToken[],
+  toName: (tokenName: string) => string
+): Array<[string, StyleToken]> {
+  const used = new Set<string>();
+  return tokens.map((token) => {
+    const base = toName(token.name) || "token";
+    let name = base;
+    for (let i = 2; used.has(name); i++) {
+      name = `${base}${i}`;
+    }
+    used.add(name);
+    return [name, token];
+  });
+}
@@ -0,0 +1,99 @@
+import L from "lodash";
+import * as ts from "typescript";
+import path from "upath";
+import { logger } from "../deps";
+
+/**
+ * The compilerOptions.paths of a tsconfig.json or jsconfig.json, with the
+ * substitutions resolved to absolute paths, e.g. "@/*" => ["/app/src/*"].
+ */
+export type PathAliases = Record<string, string[]>;
+
+/**
+ * Reads the path aliases from the tsconfig.json or jsconfig.json that
+ * applies to `dir`, following `extends`.
+ */
+export function readPathAliases(dir: string): PathAliases | undefined {
+  const configFile =
+    ts.findConfigFile(dir, ts.sys.fileExists, "tsconfig.json") ??
+    ts.findConfigFile(dir, ts.sys.fileExists, "jsconfig.json");
+  if (!configFile) {
+    return undefined;
+  }
+  const { config, error } = ts.readConfigFile(configFile, ts.sys.readFile);
+  if (error) {
+    logger.warn(
+      `Ignoring the path aliases in ${configFile}, which is invalid.`
+    );
+    return undefined;
+  }
+  const { options } = ts.parseJsonConfigFileContent(
+    config,
+    // We only need the compiler options, not the files
+    { ...ts.sys, readDirectory: () => [] },
+    path.dirname(configFile),
+    undefined,
+    configFile
+  );
+  if (!options.paths) {
+    return undefined;
+  }
+  const baseDir = options.baseUrl ?? path.dirname(configFile);
+  return L.mapValues(options.paths, (substitutions) =>
+    substitutions.map((substitution) => path.join(baseDir, substitution))
+  );
+}
+
+/**
+ * Returns the shortest aliased specifier for the file at `absPath`, or
+ * undefined if no alias covers it.
+ */
+export function toAliasedPath(aliases: PathAliases, absPath: string) {
+  const candidates: string[] = [];
+  for (const [pattern, substitutions] of Object.entries(aliases)) {
+    for (const substitution of substitutions) {
+      const match = matchPattern(substitution, absPath);
+      if (match !== undefined) {
+        candidates.push(pattern.replace("*", match));
+      }
+    }
+  }
+  return L.minBy(candidates, (candidate) => candidate.length);
+}
+
+/**
+ * Returns the absolute path that `specifier` refers to through an alias, or
+ * undefined if it isn't aliased. Like TypeScript, prefers the pattern with
+ * the longest prefix, and uses its first substitution.
+ */
+export function resolveAliasedPath(aliases: PathAliases, specifier: string) {
+  const matches = Object.entries(aliases).flatMap(
+    ([pattern, substitutions]) => {
+      const match = matchPattern(pattern, specifier);
+      return match !== undefined && substitutions.length > 0
+        ? [{ pattern, resolved: substitutions[0].replace("*", match) }]
+        : [];
+    }
+  );
+  return L.maxBy(matches, ({ pattern }) =>
+    pattern.indexOf("*") < 0 ? Infinity : pattern.indexOf("*")
+  )?.resolved;
+}
+
+/**
+ * Matches `value` against a pattern with at most one "*", returning what the
+ * "*" stands for, or undefined if it doesn't match.
+ */
+function matchPattern(pattern: string, value: string) {
+  const star = pattern.indexOf("*");
+  if (star < 0) {
+    return pattern === value ? "" : undefined;
+  }
+  const prefix = pattern.slice(0, star);
+  const suffix = pattern.slice(star + 1);
+  return value.length >= prefix.length + suffix.length &&
+    value.startsWith(prefix) &&
+    value.endsWith(suffix)
+    ? value.slice(prefix.length, value.length - suffix.length)
+    : undefined;
+}
@@ -1,4 +1,5 @@
-import inquirer from "inquirer";
+import { logger } from "../deps";
+import { getPromptHandler } from "./prompts";
 
 /**
  * Provide a standardized way to ask user to continue
@@ -17,20 +18,13 @@ export async function confirmWithUser(
 
   if (!!yes) {
     if (!process.env.QUIET) {
-      console.log(`${message} (Y/n): y`);
+      logger.info(`${message} (Y/n): y`);
     }
     return true;
   }
 
-  defaultAnswer = defaultAnswer ?? "y";
-  const isDefaultYes = defaultAnswer === "y";
-  const choices = `(${isDefaultYes ? "Y" : "y"}/${isDefaultYes ? "n" : "N"})`;
-  const res = await inquirer.prompt([
-    {
-      name: "continue",
-      message: `${message} ${choices}`,
-      default: defaultAnswer,
-    },
-  ]);
-  return ["y", "yes"].includes(res.continue.toLowerCase());
+  return getPromptHandler().confirm({
+    message,
+    defaultAnswer: (defaultAnswer ?? "y") === "y",
+  });
 }
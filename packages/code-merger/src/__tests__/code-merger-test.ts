@@ -2361,4 +2361,129 @@ describe("Test CodeMerger", function () {
           export default TreeRow as React.FunctionComponent<TreeRowProps>;`)
     );
   });
+
+  const conflictedComponent = () => {
+    const file = (revision: number, jsx: string) => `
+      function Comp1() {
+        // plasmic-managed-jsx/${revision}
+        return ${jsx};
+      }`;
+    const componentByUuid = new Map<string, ComponentInfoForMerge>();
+    componentByUuid.set("comp1", {
+      editedFile: file(
+        2,
+        `<div className={rh.clsRoot()} tabIndex={2} title="kept">Hello Edited</div>`
+      ),
+      newFile: file(
+        3,
+        `<div className={rh.clsRoot()} tabIndex={3}>Hello Plasmic</div>`
+      ),
+      newNameInIdToUuid: new Map([["Root", "Root"]]),
+    });
+    const baseInfo = new ProjectSyncMetadataModel([
+      new ComponentSkeletonModel(
+        "comp1",
+        new Map([["Root", "Root"]]),
+        file(
+          2,
+          `<div className={rh.clsRoot()} tabIndex={1} title="t">Hello</div>`
+        )
+      ),
+    ]);
+    return { componentByUuid, baseInfo };
+  };
+
+  const expectedConflicts = [
+    {
+      type: "attribute",
+      nameInId: "Root",
+      attrName: "tabIndex",
+      editedCode: "tabIndex={2}",
+      newCode: "tabIndex={3}",
+    },
+    {
+      type: "attribute",
+      nameInId: "Root",
+      attrName: "title",
+      editedCode: `title={"kept"}`,
+      newCode: undefined,
+    },
+    {
+      type: "text",
+      nameInId: "Root",
+      editedCode: "Hello Edited",
+      newCode: "Hello Plasmic",
+    },
+  ];
+
+  it("mergeFiles should mark conflicts with jsx comments", async function () {
+    const { componentByUuid, baseInfo } = conflictedComponent();
+    const warningInfos = new Map<string, WarningInfo>();
+    const merged = await mergeFiles(
+      componentByUuid,
+      "pid",
+      () => Promise.resolve(baseInfo),
+      undefined,
+      false,
+      warningInfos,
+      "jsx-comment"
+    );
+    expect(merged?.get("comp1")).toEqual(`function Comp1() {
+  // plasmic-managed-jsx/3
+  return (
+    <div
+      className={rh.clsRoot()}
+      /* PLASMIC-CONFLICT <<<<<<< edited */ tabIndex={2}
+      /* PLASMIC-CONFLICT ======= tabIndex={3} >>>>>>> plasmic */ /* PLASMIC-CONFLICT <<<<<<< edited */ title={
+        "kept"
+      } /* PLASMIC-CONFLICT ======= >>>>>>> plasmic */
+    >
+      {/* PLASMIC-CONFLICT <<<<<<< edited */}Hello Edited
+      {/* PLASMIC-CONFLICT ======= */}Hello Plasmic
+      {/* PLASMIC-CONFLICT >>>>>>> plasmic */}
+    </div>
+  );
+}
+`);
+    expect(warningInfos.get("comp1")?.conflicts()).toEqual(expectedConflicts);
+  });
+
+  it("mergeFiles should mark conflicts with git markers", async function () {
+    const { componentByUuid, baseInfo } = conflictedComponent();
+    const warningInfos = new Map<string, WarningInfo>();
+    const merged = await mergeFiles(
+      componentByUuid,
+      "pid",
+      () => Promise.resolve(baseInfo),
+      undefined,
+      false,
+      warningInfos,
+      "git-markers"
+    );
+    expect(merged?.get("comp1")).toEqual(`function Comp1() {
+  // plasmic-managed-jsx/3
+  return (
+    <div
+      className={rh.clsRoot()}
+<<<<<<< edited
+      tabIndex={2}
+=======
+      tabIndex={3}
+>>>>>>> plasmic
+<<<<<<< edited
+      title={"kept"}
+=======
+>>>>>>> plasmic
+    >
+<<<<<<< edited
+      Hello Edited
+=======
+      Hello Plasmic
+>>>>>>> plasmic
+    </div>
+  );
+}
+`);
+    expect(warningInfos.get("comp1")?.conflicts()).toEqual(expectedConflicts);
+  });
 });
@@ -39,6 +39,7 @@ import {
 import {
   code,
   formatted,
+  getAttrName,
   isAttribute,
   nodesDeepEqualIgnoreComments,
   tagName,
@@ -82,10 +83,174 @@ const findParsedNamedAttrs = (node: PlasmicTagOrComponent, name: string) => {
   return undefined;
 };
 
+// How conflicts that cannot be reconciled are written out. "git-markers"
+// writes both versions between <<<<<<< / ======= / >>>>>>> lines, which leaves
+// the file uncompilable until resolved. "jsx-comment" keeps the file valid and
+// delimits both versions with {/* PLASMIC-CONFLICT ... */} comments instead.
+// Tag conflicts are always written as a bad tag identifier "edited___new".
+export type ConflictStyle = "git-markers" | "jsx-comment";
+
+export interface MergeConflict {
+  // "tag" when both versions renamed the tag, "attribute" when both versions
+  // changed an attribute (or Plasmic deleted an attribute the user edited), and
+  // "text" when both versions changed a text child.
+  type: "tag" | "attribute" | "text";
+  // nameInId, in the new version, of the node where the conflict is.
+  nameInId: string;
+  // Only set for "attribute" conflicts.
+  attrName?: string;
+  editedCode: string;
+  // undefined if Plasmic deleted it in the new version.
+  newCode?: string;
+}
+
+class MergeConflictRecorder {
+  readonly conflicts: MergeConflict[] = [];
+
+  constructor(readonly style: ConflictStyle) {}
+
+  // Returns the index of the conflict, which identifies its placeholder.
+  record(conflict: MergeConflict) {
+    this.conflicts.push(conflict);
+    return this.conflicts.length - 1;
+  }
+}
+
+const conflictPlaceholder = (index: number) =>
+  `plasmic-conflict-placeholder-${index}`;
+
+const escapeComment = (c: string) => c.replace(/\*\//g, "*\\/");
+
+const mkConflictComment = (text: string) => {
+  const empty = babel.types.jsxEmptyExpression();
+  babel.types.addComment(empty, "inner", ` PLASMIC-CONFLICT ${text} `);
+  return babel.types.jsxExpressionContainer(empty);
+};
+
+const markConflictedAttr = (
+  recorder: MergeConflictRecorder,
+  nameInId: string,
+  editedAttr: JSXAttribute,
+  newAttr: JSXAttribute | undefined
+) => {
+  const newCode = newAttr ? code(newAttr, undefined, true) : undefined;
+  const index = recorder.record({
+    type: "attribute",
+    nameInId,
+    attrName: getAttrName(editedAttr),
+    editedCode: code(editedAttr, undefined, true),
+    newCode,
+  });
+  if (recorder.style === "git-markers") {
+    return babel.types.jsxAttribute(
+      babel.types.jsxIdentifier(conflictPlaceholder(index))
+    );
+  }
+  // Keep the edited attribute in effect, and the new one in a comment.
+  const marked = babel.types.cloneDeep(editedAttr);
+  babel.types.addComment(
+    marked,
+    "leading",
+    " PLASMIC-CONFLICT <<<<<<< edited "
+  );
+  babel.types.addComment(
+    marked,
+    "trailing",
+    ` PLASMIC-CONFLICT ======= ${
+      newCode ? `${escapeComment(newCode)} ` : ""
+    }>>>>>>> plasmic `
+  );
+  return marked;
+};
+
+const markConflictedChildren = (
+  recorder: MergeConflictRecorder,
+  nameInId: string,
+  editedChild: JsxChildType,
+  newChild: JsxChildType
+): JsxChildType[] => {
+  const index = recorder.record({
+    type: "text",
+    nameInId,
+    editedCode: code(editedChild, undefined, true).trim(),
+    newCode: code(newChild, undefined, true).trim(),
+  });
+  if (recorder.style === "git-markers") {
+    return [
+      babel.types.jsxElement(
+        babel.types.jsxOpeningElement(
+          babel.types.jsxIdentifier(conflictPlaceholder(index)),
+          [],
+          true
+        ),
+        null,
+        []
+      ),
+    ];
+  }
+  return [
+    mkConflictComment("<<<<<<< edited"),
+    editedChild,
+    mkConflictComment("======="),
+    newChild,
+    mkConflictComment(">>>>>>> plasmic"),
+  ];
+};
+
+// Replaces the placeholders left by "git-markers" conflicts in the formatted
+// code with the conflict markers. Markers always start their own line.
+const insertConflictMarkers = (
+  mergedCode: string,
+  conflicts: MergeConflict[]
+) => {
+  const lines = mergedCode.split("\n");
+  const result: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const m = line.match(
+      /<plasmic-conflict-placeholder-(\d+) \/>|plasmic-conflict-placeholder-(\d+)/
+    );
+    if (!m || m.index === undefined) {
+      result.push(line);
+      continue;
+    }
+    const indent = ensure(line.match(/^\s*/))[0];
+    const indented = (c: string | undefined) =>
+      c === undefined ? [] : c.split("\n").map((l) => `${indent}${l}`);
+    const conflict = conflicts[+(m[1] ?? m[2])];
+    const before = line.slice(0, m.index);
+    const after = line.slice(m.index + m[0].length);
+    if (before.trim()) {
+      result.push(before.trimEnd());
+    }
+    result.push(
+      "<<<<<<< edited",
+      ...indented(conflict.editedCode),
+      "=======",
+      ...indented(conflict.newCode),
+      ">>>>>>> plasmic"
+    );
+    if (after.trim()) {
+      // The rest of the line may contain more placeholders.
+      lines.splice(i + 1, 0, `${indent}${after.trim()}`);
+    }
+  }
+  return result.join("\n");
+};
+
+// Whether mergeNodes can line up the Plasmic nodes in the attribute value;
+// otherwise the value is just an expression both versions changed.
+const hasTagOrComponent = (node: PlasmicASTNode | null | undefined) =>
+  !!node &&
+  (node.type === "tag-or-component" ||
+    (node.type === "jsx-fragment" &&
+      node.children.some((c) => c.type === "tag-or-component")));
+
 const mergedTag = (
   newNode: PlasmicTagOrComponent,
   editedNode: PlasmicTagOrComponent,
-  baseNode: PlasmicTagOrComponent
+  baseNode: PlasmicTagOrComponent,
+  codeVersions: CodeVersions
 ) => {
   const editedTag = editedNode.jsxElement.rawNode.openingElement.name;
   const newTag = newNode.jsxElement.rawNode.openingElement.name;
@@ -99,6 +264,12 @@ const mergedTag = (
   if (baseTagCode === newTagCode || editedTagCode === newTagCode) {
     return editedTag;
   }
+  codeVersions.conflictRecorder?.record({
+    type: "tag",
+    nameInId: newNode.jsxElement.nameInId,
+    editedCode: editedTagCode,
+    newCode: newTagCode,
+  });
   // Generate a bad tag identifier for user to resolve conflicts
   return babel.types.jsxIdentifier(`${editedTagCode}___${newTagCode}`);
 };
@@ -174,6 +345,7 @@ const mergeAttributeValue = (
         asArray(parsedNewAttrValue),
         asArray(parsedEditedAttrValue),
         asArray(parsedBaseAttrValue),
+        newNode.jsxElement.nameInId,
         codeVersions
       );
       // If edited forced wrapping single node with JSXFragment, so do we
@@ -239,7 +411,7 @@ const mergeAttributes = (
   baseNode: PlasmicTagOrComponent,
   codeVersions: CodeVersions
 ) => {
-  const { newVersion, editedVersion } = codeVersions;
+  const { newVersion, editedVersion, conflictRecorder } = codeVersions;
   assert(editedNode.jsxElement.nameInId === newNode.jsxElement.nameInId);
   assert(editedNode.jsxElement.nameInId === baseNode.jsxElement.nameInId);
 
@@ -296,6 +468,18 @@ const mergeAttributes = (
         // We emit the newAttr in place to minimize diff.
         return newAttr;
       } else if (res === "emit-merged") {
+        if (
+          conflictRecorder &&
+          !hasTagOrComponent(findParsedNamedAttrs(newNode, attrName)) &&
+          !hasTagOrComponent(findParsedNamedAttrs(editedNode, attrName))
+        ) {
+          return markConflictedAttr(
+            conflictRecorder,
+            newNode.jsxElement.nameInId,
+            editedAttr,
+            newAttr
+          );
+        }
         const value = mergeAttributeValue(
           attrName,
           newNode,
@@ -319,13 +503,22 @@ const mergeAttributes = (
       // Attribute deleted in new version. However, user may have modified it.
       // Delete it only if there is no modification; otherwise, keep it for user
       // to fix the compilation failure.
-      return nodesDeepEqualIgnoreComments(baseAttr, editedAttr)
-        ? undefined
-        : serializeNamedAttribute(
-            editedAttr.name,
-            findParsedNamedAttrs(editedNode, attrName),
-            codeVersions
-          );
+      if (nodesDeepEqualIgnoreComments(baseAttr, editedAttr)) {
+        return undefined;
+      }
+      const keptAttr = serializeNamedAttribute(
+        editedAttr.name,
+        findParsedNamedAttrs(editedNode, attrName),
+        codeVersions
+      );
+      return conflictRecorder
+        ? markConflictedAttr(
+            conflictRecorder,
+            newNode.jsxElement.nameInId,
+            keptAttr,
+            undefined
+          )
+        : keptAttr;
     }
   };
 
@@ -469,8 +662,13 @@ const mergeNodes = (
   newNodes: PlasmicASTNode[],
   editedNodes: PlasmicASTNode[],
   baseNodes: PlasmicASTNode[],
+  // nameInId of the node owning these nodes
+  nameInId: string,
   codeVersions: CodeVersions
 ) => {
+  const { conflictRecorder } = codeVersions;
+  // Nodes in merged that conflict with an edited node, mapped to that node.
+  const conflictedNodes = new Map<PlasmicASTNode, PlasmicASTNode>();
   let nextInsertStartAt = 0;
   const insertEditedNode = (
     editedChild: PlasmicASTNode,
@@ -542,6 +740,25 @@ const mergeNodes = (
           merged.splice(matchInMergedVersion.index, 1, editedChild);
           return;
         }
+        if (conflictRecorder) {
+          // Plasmic changed the text too. Mark the text it changed to as
+          // conflicting, rather than keeping both.
+          const matchInMerged = findMatch(
+            merged,
+            nextInsertStartAt,
+            editedChild
+          );
+          if (
+            matchInMerged.type === "type" &&
+            !conflictedNodes.has(merged[matchInMerged.index]) &&
+            findMatch(baseNodes, 0, merged[matchInMerged.index]).type !==
+              "perfect"
+          ) {
+            conflictedNodes.set(merged[matchInMerged.index], editedChild);
+            nextInsertStartAt = matchInMerged.index + 1;
+            return;
+          }
+        }
       }
       insertEditedNode(editedChild, editedNodes[i - 1]);
     } else if (editedChild.type === "opaque") {
@@ -554,25 +771,33 @@ const mergeNodes = (
     // studio and code.
   });
 
-  return withoutNils(
-    merged.map((c) => {
-      if (c.type === "opaque") {
-        return c.rawNode as JsxChildType;
-      }
-      // Note that, if c is PlasmicTagOrComponent, it must come from newNodes.
-      const n = serializeNonOpaquePlasmicASTNode(c, codeVersions);
-      if (!n) {
-        return undefined;
-      }
-      if (babel.types.isExpression(n)) {
-        // need to wrap in expression container
-        return n.type !== "JSXElement" && n.type !== "JSXFragment"
-          ? babel.types.jsxExpressionContainer(n)
-          : n;
-      }
-      return n;
-    })
-  );
+  const serializeChild = (c: PlasmicASTNode): JsxChildType | undefined => {
+    if (c.type === "opaque") {
+      return c.rawNode as JsxChildType;
+    }
+    // Note that, if c is PlasmicTagOrComponent, it must come from newNodes.
+    const n = serializeNonOpaquePlasmicASTNode(c, codeVersions);
+    if (!n) {
+      return undefined;
+    }
+    if (babel.types.isExpression(n)) {
+      // need to wrap in expression container
+      return n.type !== "JSXElement" && n.type !== "JSXFragment"
+        ? babel.types.jsxExpressionContainer(n)
+        : n;
+    }
+    return n;
+  };
+
+  return L.flatMap(merged, (c) => {
+    const n = serializeChild(c);
+    const editedChild = conflictedNodes.get(c);
+    const editedN = editedChild && serializeChild(editedChild);
+    if (conflictRecorder && n && editedN) {
+      return markConflictedChildren(conflictRecorder, nameInId, editedN, n);
+    }
+    return withoutNils([n]);
+  });
 };
 
 const mergedChildren = (
@@ -585,6 +810,7 @@ const mergedChildren = (
     newNode.jsxElement.children,
     editedNode.jsxElement.children,
     baseNode.jsxElement.children,
+    newNode.jsxElement.nameInId,
     codeVersions
   );
 };
@@ -617,7 +843,8 @@ const serializeTagOrComponent = (
     editedNodeJsxElementClone.openingElement.name = mergedTag(
       newNode,
       editedNode,
-      baseNode
+      baseNode,
+      codeVersions
     );
     if (editedNodeJsxElementClone.closingElement) {
       editedNodeJsxElementClone.closingElement.name =
@@ -812,6 +1039,9 @@ interface CodeVersions {
   newVersion: CodeVersion;
   editedVersion: CodeVersion;
   baseVersion: CodeVersion;
+  // Set to mark unreconcilable conflicts instead of resolving them by
+  // heuristics.
+  conflictRecorder?: MergeConflictRecorder;
 }
 
 const serializePlasmicASTNode = (
@@ -853,6 +1083,7 @@ export const renameAndSerializePlasmicASTNode = (
       codeVersions.newVersion
     ),
     newVersion: codeVersions.newVersion,
+    conflictRecorder: codeVersions.conflictRecorder,
   });
 };
 
@@ -1087,6 +1318,7 @@ export type ComponentInfoForMerge = {
 export class WarningInfo {
   private _rawWarnings: string[] = [];
   private _secondaryNodes: PlasmicTagOrComponent[] = [];
+  private _conflicts: MergeConflict[] = [];
 
   addRawWarn(msg: string) {
     this._rawWarnings.push(msg);
@@ -1096,12 +1328,19 @@ export class WarningInfo {
     this._secondaryNodes.push(...nodes);
   }
 
+  addConflicts(conflicts: MergeConflict[]) {
+    this._conflicts.push(...conflicts);
+  }
+
   rawWarnings() {
     return this._rawWarnings;
   }
   secondaryNodes() {
     return this._secondaryNodes;
   }
+  conflicts() {
+    return this._conflicts;
+  }
 
   maybeWarn() {
     this._rawWarnings.forEach((m) => console.warn(m));
@@ -1113,6 +1352,17 @@ export class WarningInfo {
         `Plasmic perform limited merge to the following nodes since they are secondary nodes.\n${nodes}`
       );
     }
+    if (this._conflicts.length > 0) {
+      const conflicts = this._conflicts
+        .map(
+          (c) =>
+            `${c.type} of ${c.nameInId}${c.attrName ? ` (${c.attrName})` : ""}`
+        )
+        .join("\n\t");
+      console.warn(
+        `Plasmic could not merge the following edits, and marked them as conflicts.\n${conflicts}`
+      );
+    }
   }
 }
 
@@ -1129,7 +1379,10 @@ export const mergeFiles = async (
   ) => void,
   appendJsxTreeOnMissingBase?: boolean,
   // Output parameter, which is used to collect warning information
-  warningInfos?: Map<string, WarningInfo>
+  warningInfos?: Map<string, WarningInfo>,
+  // If set, conflicts are marked in the merged code and collected in
+  // warningInfos, instead of being resolved by heuristics.
+  conflictStyle?: ConflictStyle
 ) => {
   const updateableByComponentUuid = new Map<
     string,
@@ -1217,10 +1470,14 @@ export const mergeFiles = async (
       ...editedCodeVersion.secondaryTagsOrComponents.values(),
     ]);
 
+    const conflictRecorder = conflictStyle
+      ? new MergeConflictRecorder(conflictStyle)
+      : undefined;
     const newJsx = renameAndSerializePlasmicASTNode(newCodeVersion.root, {
       newVersion: newCodeVersion,
       editedVersion: editedCodeVersion,
       baseVersion: baseCodeVersion,
+      conflictRecorder,
     });
 
     // Ideally, we should keep parsedEdited read-only, but, it is not a big deal
@@ -1233,8 +1490,18 @@ export const mergeFiles = async (
       return undefined;
     });
     mergePlasmicImports(mergedFile, parsedNew, parsedEdited);
-    const mergedCode = code(mergedFile, { retainLines: true });
-    mergedFiles.set(componentUuid, formatted(mergedCode));
+    const mergedCode = formatted(code(mergedFile, { retainLines: true }));
+    if (!conflictRecorder) {
+      mergedFiles.set(componentUuid, mergedCode);
+      continue;
+    }
+    warnInfo.addConflicts(conflictRecorder.conflicts);
+    mergedFiles.set(
+      componentUuid,
+      conflictStyle === "git-markers"
+        ? insertConflictMarkers(mergedCode, conflictRecorder.conflicts)
+        : mergedCode
+    );
   }
   return mergedFiles;
 };
@@ -10,6 +10,9 @@ import execa from "execa";
 import rmfr from "rmfr";
 import { initSentry } from "./sentry";
 
+// The first version of the CLI that reports the events of `watch --json`
+const MIN_WATCH_JSON_CLI_VERSION = "0.1.137";
+
 type onRegisterPages = (
   pages: { name: string; projectId: string; path: string; url: string }[],
   config: any
@@ -28,9 +31,12 @@ export async function watchForChanges(
   const watchCmd = execa(
     "npx",
     [
-      ..."-p @plasmicapp/cli@latest plasmic".split(/ /g),
+      "-p",
+      `@plasmicapp/cli@>=${MIN_WATCH_JSON_CLI_VERSION}`,
+      "plasmic",
       "watch",
       "--yes",
+      "--json",
       "--metadata",
       "source=loader",
     ],
@@ -41,15 +47,28 @@ export async function watchForChanges(
     }
   );
 
+  // Events are written one per line, but a chunk of output may end mid-line.
+  let pendingOutput = "";
+  function parseEvents(content: string) {
+    const lines = (pendingOutput + content).split("\n");
+    pendingOutput = lines.pop() ?? "";
+    const events: { type: string }[] = [];
+    for (const line of lines.filter(Boolean)) {
+      try {
+        events.push(JSON.parse(line));
+      } catch {
+        // Not an event; stray output from a subprocess.
+        logger.cliInfo(line);
+      }
+    }
+    return events;
+  }
+
   async function handleWatchCliOutput(data: string) {
-    const content = data.toString();
-    content
-      .split("\n")
-      .filter(Boolean)
-      .forEach((text) => logger.cliInfo(text));
-
-    // Once the CLI output this message, we know the components & configs were updated.
-    const didUpdate = content.includes("updated to revision");
+    const events = parseEvents(data.toString());
+
+    // Once the CLI reports a new revision, we know the components & configs were updated.
+    const didUpdate = events.some((e) => e.type === "revision-updated");
     if (didUpdate) {
       await gen.generateAll({ dir: plasmicDir, pageDir });
       currentConfig = await cli.readConfig(plasmicDir);
@@ -62,6 +81,16 @@ export async function watchForChanges(
     }
   }
 
+  if (watchCmd.stderr) {
+    watchCmd.stderr.on("data", (data: Buffer) =>
+      data
+        .toString()
+        .split("\n")
+        .filter(Boolean)
+        .forEach((text) => logger.cliInfo(text))
+    );
+  }
+
   if (watchCmd.stdout) {
     watchCmd.stdout.on("data", (data: Buffer) =>
       handleWatchCliOutput(data.toString()).catch((e) =>